@@ -34,6 +34,7 @@ export default function Home() {
         strictSchema={true}
         title="Upload your bookings file, preview the data for verification, and import it into the system."
         apiEndpoint="http://localhost:3333/api/v1/booking/upload"
+        exportSheetName="Bookings"
       />
 
       <div className="mt-8 p-4 bg-muted rounded-md">
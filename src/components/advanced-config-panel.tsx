@@ -13,7 +13,33 @@ import { Badge } from "@/components/ui/badge"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Separator } from "@/components/ui/separator"
 import { PlusCircle, Save, Trash2, Settings2 } from "lucide-react"
-import type { ColumnConfig, ValidationRule, ImporterConfig, DataTypeConfig, InvalidDataHandling } from "@/lib/types"
+import type {
+    ColumnConfig,
+    ValidationRule,
+    ImporterConfig,
+    DataTypeConfig,
+    InvalidDataHandling,
+    CsvOptions,
+    CsvEncoding,
+    CsvEscapeMode,
+    RowCondition,
+    RowConditionOperator,
+    RowRule,
+    DuplicateHandling,
+    ColumnTypeConfig,
+    DateTimeCombination,
+    LookupSource,
+    LookupTable,
+    RemoteValidationOptions,
+    ValidationSeverity,
+    ColumnTransform,
+} from "@/lib/types"
+import { getRowRuleMessage } from "@/lib/enhanced-validation-utils"
+import { getExpressionError } from "@/lib/expression-utils"
+import { isValidTimeZone, splitDateFormats } from "@/lib/date-utils"
+import { PHONE_COUNTRIES } from "@/lib/phone-utils"
+import { fetchLookupValues, matchesLookupTable, readLookupValues } from "@/lib/lookup-utils"
+import { useLookupTablesStore } from "./lookup-tables-store"
 
 interface AdvancedConfigPanelProps {
     config: ImporterConfig
@@ -26,6 +52,9 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
     const [activeTab, setActiveTab] = useState("columns")
     const [editingColumn, setEditingColumn] = useState<ColumnConfig | null>(null)
     const [editingIndex, setEditingIndex] = useState<number>(-1)
+    const { tables: lookupCache, saveLookupTable, removeLookupTable } = useLookupTablesStore()
+    const [lookupLoading, setLookupLoading] = useState<string | null>(null)
+    const [lookupErrors, setLookupErrors] = useState<Record<string, string>>({})
 
     // Handle column configuration changes
     const handleColumnChange = (index: number, field: keyof ColumnConfig, value: any) => {
@@ -159,6 +188,181 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
         })
     }
 
+    // Handle updating CSV dialect settings
+    const handleCsvOptionChange = <K extends keyof CsvOptions>(field: K, value: CsvOptions[K]) => {
+        setCurrentConfig({
+            ...currentConfig,
+            csv: {
+                ...currentConfig.csv,
+                [field]: value,
+            },
+        })
+    }
+
+    // Handle adding a row rule, starting with the first configured column
+    const handleAddRowRule = () => {
+        setCurrentConfig({
+            ...currentConfig,
+            rowRules: [
+                ...currentConfig.rowRules,
+                { check: { column: currentConfig.columns[0]?.name || "", operator: "notEmpty" }, message: "" },
+            ],
+        })
+    }
+
+    // Handle updating a row rule
+    const handleUpdateRowRule = (index: number, rule: RowRule) => {
+        const updatedRules = [...currentConfig.rowRules]
+        updatedRules[index] = rule
+        setCurrentConfig({
+            ...currentConfig,
+            rowRules: updatedRules,
+        })
+    }
+
+    // Handle removing a row rule
+    const handleRemoveRowRule = (index: number) => {
+        setCurrentConfig({
+            ...currentConfig,
+            rowRules: currentConfig.rowRules.filter((_, i) => i !== index),
+        })
+    }
+
+    // Handle adding a unique key
+    const handleAddUniqueKey = () => {
+        setCurrentConfig({
+            ...currentConfig,
+            uniqueKeys: [...currentConfig.uniqueKeys, { columns: [], message: "" }],
+        })
+    }
+
+    // Handle adding or removing a column from a unique key
+    const handleUniqueKeyColumnChange = (index: number, column: string, checked: boolean) => {
+        const updatedKeys = [...currentConfig.uniqueKeys]
+        const columns = updatedKeys[index].columns.filter((name) => name !== column)
+        updatedKeys[index] = {
+            ...updatedKeys[index],
+            // Keep the key columns in schema order
+            columns: currentConfig.columns
+                .map((c) => c.name)
+                .filter((name) => columns.includes(name) || (checked && name === column)),
+        }
+        setCurrentConfig({
+            ...currentConfig,
+            uniqueKeys: updatedKeys,
+        })
+    }
+
+    // Handle updating a unique key's error message
+    const handleUniqueKeyMessageChange = (index: number, message: string) => {
+        const updatedKeys = [...currentConfig.uniqueKeys]
+        updatedKeys[index] = { ...updatedKeys[index], message }
+        setCurrentConfig({
+            ...currentConfig,
+            uniqueKeys: updatedKeys,
+        })
+    }
+
+    // Handle removing a unique key
+    const handleRemoveUniqueKey = (index: number) => {
+        setCurrentConfig({
+            ...currentConfig,
+            uniqueKeys: currentConfig.uniqueKeys.filter((_, i) => i !== index),
+        })
+    }
+
+    // Handle adding a date and time combination
+    const handleAddDateTimeCombination = () => {
+        setCurrentConfig({
+            ...currentConfig,
+            dateTimeCombinations: [
+                ...currentConfig.dateTimeCombinations,
+                { dateColumn: "", timeColumn: "", outputColumn: "", timeZone: "", removeSourceColumns: true },
+            ],
+        })
+    }
+
+    // Handle updating a date and time combination
+    const handleUpdateDateTimeCombination = (index: number, updates: Partial<DateTimeCombination>) => {
+        const updatedCombinations = [...currentConfig.dateTimeCombinations]
+        updatedCombinations[index] = { ...updatedCombinations[index], ...updates }
+        setCurrentConfig({
+            ...currentConfig,
+            dateTimeCombinations: updatedCombinations,
+        })
+    }
+
+    // Handle removing a date and time combination
+    const handleRemoveDateTimeCombination = (index: number) => {
+        setCurrentConfig({
+            ...currentConfig,
+            dateTimeCombinations: currentConfig.dateTimeCombinations.filter((_, i) => i !== index),
+        })
+    }
+
+    // Handle adding a lookup table
+    const handleAddLookupTable = () => {
+        setCurrentConfig({
+            ...currentConfig,
+            lookupTables: [
+                ...currentConfig.lookupTables,
+                { name: `lookup_${currentConfig.lookupTables.length + 1}`, source: "upload", location: "", valueColumn: "" },
+            ],
+        })
+    }
+
+    // Handle updating a lookup table
+    const handleUpdateLookupTable = (index: number, updates: Partial<LookupTable>) => {
+        const updatedTables = [...currentConfig.lookupTables]
+        updatedTables[index] = { ...updatedTables[index], ...updates }
+        setCurrentConfig({
+            ...currentConfig,
+            lookupTables: updatedTables,
+        })
+    }
+
+    // Handle removing a lookup table, with its cached values so a new table of the same name starts empty
+    const handleRemoveLookupTable = (index: number) => {
+        removeLookupTable(currentConfig.lookupTables[index].name)
+        setCurrentConfig({
+            ...currentConfig,
+            lookupTables: currentConfig.lookupTables.filter((_, i) => i !== index),
+        })
+    }
+
+    // Handle loading a lookup table from an uploaded file or its location into the cache
+    const handleLoadLookupTable = async (table: LookupTable, file?: File) => {
+        setLookupLoading(table.name)
+        setLookupErrors((errors) => ({ ...errors, [table.name]: "" }))
+        try {
+            const values = file
+                ? readLookupValues(await file.arrayBuffer(), file.name, table.valueColumn)
+                : await fetchLookupValues(table)
+            if (values.length === 0) {
+                throw new Error("No values found")
+            }
+            saveLookupTable(table, values, file ? file.name : table.location || "")
+        } catch (error) {
+            setLookupErrors((errors) => ({
+                ...errors,
+                [table.name]: error instanceof Error ? error.message : "Failed to load the lookup table",
+            }))
+        } finally {
+            setLookupLoading(null)
+        }
+    }
+
+    // Handle updating the remote validation limits
+    const handleRemoteValidationChange = (field: keyof RemoteValidationOptions, value: number) => {
+        setCurrentConfig({
+            ...currentConfig,
+            remoteValidation: {
+                ...currentConfig.remoteValidation,
+                [field]: value,
+            },
+        })
+    }
+
     // Handle updating invalid column handling
     const handleInvalidColumnChange = (value: string) => {
         setCurrentConfig({
@@ -168,7 +372,7 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
     }
 
     // Handle updating data type configuration
-    const handleDataTypeConfigChange = (type: string, field: keyof DataTypeConfig, value: any) => {
+    const handleDataTypeConfigChange = (type: string, field: string, value: any) => {
         setCurrentConfig({
             ...currentConfig,
             dataTypeConfig: {
@@ -193,10 +397,14 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
 
             <CardContent>
                 <Tabs value={activeTab} onValueChange={setActiveTab}>
-                    <TabsList className="grid w-full grid-cols-3">
+                    <TabsList className="grid w-full grid-cols-7">
                         <TabsTrigger value="columns">Columns</TabsTrigger>
                         <TabsTrigger value="formats">File Formats</TabsTrigger>
+                        <TabsTrigger value="csv">CSV Options</TabsTrigger>
                         <TabsTrigger value="validation">Data Validation</TabsTrigger>
+                        <TabsTrigger value="rowRules">Row Rules</TabsTrigger>
+                        <TabsTrigger value="duplicates">Duplicates</TabsTrigger>
+                        <TabsTrigger value="lookups">Lookups</TabsTrigger>
                     </TabsList>
 
                     {/* Columns Configuration */}
@@ -262,6 +470,8 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
                                                     <SelectItem value="string">Text</SelectItem>
                                                     <SelectItem value="number">Number</SelectItem>
                                                     <SelectItem value="date">Date</SelectItem>
+                                                    <SelectItem value="time">Time</SelectItem>
+                                                    <SelectItem value="datetime">Date &amp; Time</SelectItem>
                                                     <SelectItem value="boolean">Boolean</SelectItem>
                                                     <SelectItem value="email">Email</SelectItem>
                                                     <SelectItem value="phone">Phone</SelectItem>
@@ -302,6 +512,51 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
                                         <Label htmlFor="column-required">Required Field</Label>
                                     </div>
 
+                                    <div className="space-y-2">
+                                        <Label htmlFor="column-type-severity">Type Check Severity</Label>
+                                        <SeveritySelect
+                                            id="column-type-severity"
+                                            value={editingColumn.typeSeverity}
+                                            onChange={(typeSeverity) => setEditingColumn({ ...editingColumn, typeSeverity })}
+                                        />
+                                        <p className="text-xs text-muted-foreground">
+                                            Values that do not match the column type or format; only errors block the import
+                                        </p>
+                                    </div>
+
+                                    <div className="space-y-2">
+                                        <Label htmlFor="column-transform">Output Value</Label>
+                                        <Select
+                                            value={editingColumn.transform || "typed"}
+                                            onValueChange={(value) =>
+                                                setEditingColumn({ ...editingColumn, transform: value as ColumnTransform })
+                                            }
+                                        >
+                                            <SelectTrigger id="column-transform">
+                                                <SelectValue placeholder="Select output" />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="typed">Convert to {getDataTypeLabel(editingColumn.type)}</SelectItem>
+                                                <SelectItem value="none">Keep as read from the file</SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                        <p className="text-xs text-muted-foreground">
+                                            Converted values are real numbers and booleans, ISO dates and times and E.164 phone
+                                            numbers; date and time combinations need them
+                                        </p>
+                                    </div>
+
+                                    <div className="flex items-center space-x-2">
+                                        <Switch
+                                            id="column-keep-raw"
+                                            checked={!!editingColumn.keepRawValue}
+                                            onCheckedChange={(checked) => setEditingColumn({ ...editingColumn, keepRawValue: checked })}
+                                        />
+                                        <Label htmlFor="column-keep-raw">
+                                            Keep the raw value in &quot;{editingColumn.name || "column"}_raw&quot;
+                                        </Label>
+                                    </div>
+
                                     {editingColumn.invalidHandling === "default" && (
                                         <div className="space-y-2">
                                             <Label htmlFor="default-value">Default Value</Label>
@@ -326,6 +581,14 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
 
                                     <Separator />
 
+                                    <ColumnTypeSettings
+                                        column={editingColumn}
+                                        defaults={currentConfig.dataTypeConfig}
+                                        onChange={(typeConfig) => setEditingColumn({ ...editingColumn, typeConfig })}
+                                    />
+
+                                    <Separator />
+
                                     <div className="space-y-4">
                                         <div className="flex items-center justify-between">
                                             <Label>Validation Rules</Label>
@@ -392,7 +655,46 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
                                                                     </Button>
                                                                 </div>
 
-                                                                {rule.type !== "custom" && (
+                                                                {rule.type === "custom" ? (
+                                                                    <ExpressionInput
+                                                                        value={rule.value || ""}
+                                                                        onChange={(expression) => {
+                                                                            const rules = [...editingColumn.validationRules]
+                                                                            rules[ruleIndex] = { ...rules[ruleIndex], value: expression }
+                                                                            setEditingColumn({ ...editingColumn, validationRules: rules })
+                                                                        }}
+                                                                    />
+                                                                ) : rule.type === "lookup" ? (
+                                                                    <div className="space-y-2">
+                                                                        <Label>Lookup Table</Label>
+                                                                        <Select
+                                                                            value={rule.value || ""}
+                                                                            onValueChange={(value) => {
+                                                                                const rules = [...editingColumn.validationRules]
+                                                                                rules[ruleIndex] = { ...rules[ruleIndex], value }
+                                                                                setEditingColumn({ ...editingColumn, validationRules: rules })
+                                                                            }}
+                                                                        >
+                                                                            <SelectTrigger>
+                                                                                <SelectValue placeholder="Select a lookup table" />
+                                                                            </SelectTrigger>
+                                                                            <SelectContent>
+                                                                                {currentConfig.lookupTables
+                                                                                    .filter((table) => table.name)
+                                                                                    .map((table) => (
+                                                                                        <SelectItem key={table.name} value={table.name}>
+                                                                                            {table.name}
+                                                                                        </SelectItem>
+                                                                                    ))}
+                                                                            </SelectContent>
+                                                                        </Select>
+                                                                        {currentConfig.lookupTables.length === 0 && (
+                                                                            <p className="text-xs text-muted-foreground">
+                                                                                Add lookup tables on the Lookups tab
+                                                                            </p>
+                                                                        )}
+                                                                    </div>
+                                                                ) : (
                                                                     <div className="space-y-2">
                                                                         <Label>Value</Label>
                                                                         <Input
@@ -407,6 +709,44 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
                                                                     </div>
                                                                 )}
 
+                                                                {rule.type === "remote" && (
+                                                                    <div className="space-y-2">
+                                                                        <Label>Context Columns</Label>
+                                                                        <div className="grid grid-cols-3 gap-2">
+                                                                            {currentConfig.columns
+                                                                                .filter((column) => column.name !== editingColumn.name)
+                                                                                .map((column) => (
+                                                                                    <div key={column.name} className="flex items-center space-x-2">
+                                                                                        <Checkbox
+                                                                                            id={`rule-${ruleIndex}-context-${column.name}`}
+                                                                                            checked={(rule.contextColumns || []).includes(column.name)}
+                                                                                            onCheckedChange={(checked) => {
+                                                                                                const others = (rule.contextColumns || []).filter(
+                                                                                                    (name) => name !== column.name,
+                                                                                                )
+                                                                                                const rules = [...editingColumn.validationRules]
+                                                                                                rules[ruleIndex] = {
+                                                                                                    ...rules[ruleIndex],
+                                                                                                    contextColumns: checked ? [...others, column.name] : others,
+                                                                                                }
+                                                                                                setEditingColumn({ ...editingColumn, validationRules: rules })
+                                                                                            }}
+                                                                                        />
+                                                                                        <Label
+                                                                                            htmlFor={`rule-${ruleIndex}-context-${column.name}`}
+                                                                                            className="text-sm"
+                                                                                        >
+                                                                                            {column.displayName || column.name}
+                                                                                        </Label>
+                                                                                    </div>
+                                                                                ))}
+                                                                        </div>
+                                                                        <p className="text-xs text-muted-foreground">
+                                                                            Sent with each value, e.g. the booking date for an availability check
+                                                                        </p>
+                                                                    </div>
+                                                                )}
+
                                                                 <div className="space-y-2">
                                                                     <Label>Error Message</Label>
                                                                     <Input
@@ -419,6 +759,18 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
                                                                         placeholder="Error message to display"
                                                                     />
                                                                 </div>
+
+                                                                <div className="space-y-2">
+                                                                    <Label>Severity</Label>
+                                                                    <SeveritySelect
+                                                                        value={rule.severity}
+                                                                        onChange={(severity) => {
+                                                                            const rules = [...editingColumn.validationRules]
+                                                                            rules[ruleIndex] = { ...rules[ruleIndex], severity }
+                                                                            setEditingColumn({ ...editingColumn, validationRules: rules })
+                                                                        }}
+                                                                    />
+                                                                </div>
                                                             </div>
                                                         </CardContent>
                                                     </Card>
@@ -557,6 +909,40 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
                                         </div>
                                     </div>
                                 </Card>
+
+                                <Card className="p-4">
+                                    <div className="flex items-start space-x-2">
+                                        <Checkbox
+                                            id="format-json"
+                                            checked={currentConfig.acceptedFormats.includes(".json")}
+                                            onCheckedChange={(checked) => handleFileFormatChange(".json", checked as boolean)}
+                                        />
+                                        <div className="grid gap-1.5 leading-none">
+                                            <Label htmlFor="format-json" className="font-medium">
+                                                JSON (.json)
+                                            </Label>
+                                            <p className="text-sm text-muted-foreground">
+                                                Array of objects; nested fields become dot-path columns
+                                            </p>
+                                        </div>
+                                    </div>
+                                </Card>
+
+                                <Card className="p-4">
+                                    <div className="flex items-start space-x-2">
+                                        <Checkbox
+                                            id="format-ndjson"
+                                            checked={currentConfig.acceptedFormats.includes(".ndjson")}
+                                            onCheckedChange={(checked) => handleFileFormatChange(".ndjson", checked as boolean)}
+                                        />
+                                        <div className="grid gap-1.5 leading-none">
+                                            <Label htmlFor="format-ndjson" className="font-medium">
+                                                NDJSON (.ndjson)
+                                            </Label>
+                                            <p className="text-sm text-muted-foreground">One JSON object per line</p>
+                                        </div>
+                                    </div>
+                                </Card>
                             </div>
 
                             <Separator />
@@ -581,6 +967,179 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
                                     </SelectContent>
                                 </Select>
                             </div>
+
+                            <Separator />
+
+                            <div className="space-y-4">
+                                <div>
+                                    <h3 className="text-lg font-medium">Header Row</h3>
+                                    <p className="text-sm text-muted-foreground">
+                                        Where the column headers are located in each sheet
+                                    </p>
+                                </div>
+
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div className="space-y-2">
+                                        <Label htmlFor="header-row-mode">Header Detection</Label>
+                                        <Select
+                                            value={currentConfig.headerRow === "auto" ? "auto" : "fixed"}
+                                            onValueChange={(value) =>
+                                                setCurrentConfig({
+                                                    ...currentConfig,
+                                                    headerRow: value === "auto" ? "auto" : 1,
+                                                })
+                                            }
+                                        >
+                                            <SelectTrigger id="header-row-mode">
+                                                <SelectValue placeholder="Select header detection" />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="auto">Auto-detect from column names</SelectItem>
+                                                <SelectItem value="fixed">Fixed row number</SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+
+                                    {currentConfig.headerRow === "auto" ? (
+                                        <div className="space-y-2">
+                                            <Label htmlFor="header-detection-rows">Rows to Scan</Label>
+                                            <Input
+                                                id="header-detection-rows"
+                                                type="number"
+                                                min="1"
+                                                value={currentConfig.headerDetectionRows.toString()}
+                                                onChange={(e) =>
+                                                    setCurrentConfig({
+                                                        ...currentConfig,
+                                                        headerDetectionRows: Number.parseInt(e.target.value) || 1,
+                                                    })
+                                                }
+                                            />
+                                            <p className="text-xs text-muted-foreground">
+                                                The row matching the most configured column names is used as the header
+                                            </p>
+                                        </div>
+                                    ) : (
+                                        <div className="space-y-2">
+                                            <Label htmlFor="header-row">Header Row Number</Label>
+                                            <Input
+                                                id="header-row"
+                                                type="number"
+                                                min="1"
+                                                value={currentConfig.headerRow.toString()}
+                                                onChange={(e) =>
+                                                    setCurrentConfig({
+                                                        ...currentConfig,
+                                                        headerRow: Number.parseInt(e.target.value) || 1,
+                                                    })
+                                                }
+                                            />
+                                            <p className="text-xs text-muted-foreground">
+                                                Rows above the header (titles, date ranges) are skipped
+                                            </p>
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+                    </TabsContent>
+
+                    {/* CSV Dialect Configuration */}
+                    <TabsContent value="csv" className="space-y-4 py-4">
+                        <div className="space-y-4">
+                            <div>
+                                <h3 className="text-lg font-medium">CSV Options</h3>
+                                <p className="text-sm text-muted-foreground">
+                                    How delimited text files (.csv, .tsv, .txt) are decoded and split into columns
+                                </p>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label htmlFor="csv-delimiter">Delimiter</Label>
+                                    <Select
+                                        value={currentConfig.csv.delimiter}
+                                        onValueChange={(value) => handleCsvOptionChange("delimiter", value)}
+                                    >
+                                        <SelectTrigger id="csv-delimiter">
+                                            <SelectValue placeholder="Select delimiter" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="auto">Auto-detect</SelectItem>
+                                            <SelectItem value=",">Comma (,)</SelectItem>
+                                            <SelectItem value=";">Semicolon (;)</SelectItem>
+                                            <SelectItem value={"\t"}>Tab</SelectItem>
+                                            <SelectItem value="|">Pipe (|)</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                    <p className="text-xs text-muted-foreground">
+                                        Auto-detect picks the separator that splits the first lines most consistently
+                                    </p>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <Label htmlFor="csv-encoding">Encoding</Label>
+                                    <Select
+                                        value={currentConfig.csv.encoding}
+                                        onValueChange={(value) => handleCsvOptionChange("encoding", value as CsvEncoding)}
+                                    >
+                                        <SelectTrigger id="csv-encoding">
+                                            <SelectValue placeholder="Select encoding" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="auto">Auto-detect</SelectItem>
+                                            <SelectItem value="utf-8">UTF-8</SelectItem>
+                                            <SelectItem value="utf-16le">UTF-16 LE</SelectItem>
+                                            <SelectItem value="utf-16be">UTF-16 BE</SelectItem>
+                                            <SelectItem value="windows-1252">Windows-1252</SelectItem>
+                                            <SelectItem value="iso-8859-1">ISO-8859-1 (Latin-1)</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                    <p className="text-xs text-muted-foreground">
+                                        Auto-detect uses the byte order mark and falls back to Windows-1252 for invalid UTF-8
+                                    </p>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <Label htmlFor="csv-quote">Quote Character</Label>
+                                    <Input
+                                        id="csv-quote"
+                                        maxLength={1}
+                                        value={currentConfig.csv.quoteChar}
+                                        onChange={(e) => handleCsvOptionChange("quoteChar", e.target.value)}
+                                    />
+                                </div>
+
+                                <div className="space-y-2">
+                                    <Label htmlFor="csv-escape">Escape Character</Label>
+                                    <Select
+                                        value={currentConfig.csv.escapeMode}
+                                        onValueChange={(value) => handleCsvOptionChange("escapeMode", value as CsvEscapeMode)}
+                                    >
+                                        <SelectTrigger id="csv-escape">
+                                            <SelectValue placeholder="Select escape style" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="double">Doubled quote (&quot;&quot;)</SelectItem>
+                                            <SelectItem value="backslash">Backslash (\&quot;)</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <Label htmlFor="csv-skip-lines">Lines to Skip</Label>
+                                    <Input
+                                        id="csv-skip-lines"
+                                        type="number"
+                                        min="0"
+                                        value={currentConfig.csv.skipLines.toString()}
+                                        onChange={(e) => handleCsvOptionChange("skipLines", Number.parseInt(e.target.value) || 0)}
+                                    />
+                                    <p className="text-xs text-muted-foreground">
+                                        Lines removed from the top of the file before the header is looked up
+                                    </p>
+                                </div>
+                            </div>
                         </div>
                     </TabsContent>
 
@@ -593,10 +1152,12 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
                             </div>
 
                             <Tabs defaultValue="string">
-                                <TabsList className="grid w-full grid-cols-6">
+                                <TabsList className="grid w-full grid-cols-8">
                                     <TabsTrigger value="string">Text</TabsTrigger>
                                     <TabsTrigger value="number">Number</TabsTrigger>
                                     <TabsTrigger value="date">Date</TabsTrigger>
+                                    <TabsTrigger value="time">Time</TabsTrigger>
+                                    <TabsTrigger value="datetime">Date &amp; Time</TabsTrigger>
                                     <TabsTrigger value="boolean">Boolean</TabsTrigger>
                                     <TabsTrigger value="email">Email</TabsTrigger>
                                     <TabsTrigger value="phone">Phone</TabsTrigger>
@@ -715,6 +1276,82 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
                                                 />
                                                 <Label htmlFor="number-integer-only">Integer values only</Label>
                                             </div>
+
+                                            <div className="grid grid-cols-2 gap-4">
+                                                <div className="space-y-2">
+                                                    <Label htmlFor="number-decimal-separator">Decimal Separator</Label>
+                                                    <Select
+                                                        value={currentConfig.dataTypeConfig.number.decimalSeparator}
+                                                        onValueChange={(value) =>
+                                                            handleDataTypeConfigChange("number", "decimalSeparator", value)
+                                                        }
+                                                    >
+                                                        <SelectTrigger id="number-decimal-separator">
+                                                            <SelectValue />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            <SelectItem value=".">Point (1234.5)</SelectItem>
+                                                            <SelectItem value=",">Comma (1234,5)</SelectItem>
+                                                        </SelectContent>
+                                                    </Select>
+                                                </div>
+
+                                                <div className="space-y-2">
+                                                    <Label htmlFor="number-thousands-separator">Thousands Separator</Label>
+                                                    <Select
+                                                        value={currentConfig.dataTypeConfig.number.thousandsSeparator || "none"}
+                                                        onValueChange={(value) =>
+                                                            handleDataTypeConfigChange(
+                                                                "number",
+                                                                "thousandsSeparator",
+                                                                value === "none" ? "" : value,
+                                                            )
+                                                        }
+                                                    >
+                                                        <SelectTrigger id="number-thousands-separator">
+                                                            <SelectValue />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            <SelectItem value=",">Comma (1,234)</SelectItem>
+                                                            <SelectItem value=".">Point (1.234)</SelectItem>
+                                                            <SelectItem value=" ">Space (1 234)</SelectItem>
+                                                            <SelectItem value="'">Apostrophe (1&apos;234)</SelectItem>
+                                                            <SelectItem value="none">None</SelectItem>
+                                                        </SelectContent>
+                                                    </Select>
+                                                </div>
+                                            </div>
+
+                                            <div className="space-y-2">
+                                                <Label htmlFor="number-currency-symbols">Currency Symbols and Codes</Label>
+                                                <Input
+                                                    id="number-currency-symbols"
+                                                    defaultValue={currentConfig.dataTypeConfig.number.currencySymbols.join(", ")}
+                                                    onBlur={(e) =>
+                                                        handleDataTypeConfigChange(
+                                                            "number",
+                                                            "currencySymbols",
+                                                            e.target.value
+                                                                .split(",")
+                                                                .map((symbol) => symbol.trim())
+                                                                .filter(Boolean),
+                                                        )
+                                                    }
+                                                    placeholder="$, €, Rs, INR"
+                                                />
+                                                <p className="text-xs text-muted-foreground">
+                                                    Comma-separated; removed from the start or end of a value before it is read
+                                                </p>
+                                            </div>
+
+                                            <div className="flex items-center space-x-2">
+                                                <Switch
+                                                    id="number-allow-percent"
+                                                    checked={currentConfig.dataTypeConfig.number.allowPercent}
+                                                    onCheckedChange={(checked) => handleDataTypeConfigChange("number", "allowPercent", checked)}
+                                                />
+                                                <Label htmlFor="number-allow-percent">Accept percentages (15% is read as 0.15)</Label>
+                                            </div>
                                         </div>
                                     </Card>
                                 </TabsContent>
@@ -756,10 +1393,241 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
                                                     Format pattern for date validation (e.g., YYYY-MM-DD, MM/DD/YYYY)
                                                 </p>
                                             </div>
+
+                                            <div className="space-y-2">
+                                                <Label htmlFor="date-input-formats">Accepted Input Formats</Label>
+                                                <Input
+                                                    id="date-input-formats"
+                                                    defaultValue={(currentConfig.dataTypeConfig.date.inputFormats || []).join(", ")}
+                                                    onBlur={(e) =>
+                                                        handleDataTypeConfigChange(
+                                                            "date",
+                                                            "inputFormats",
+                                                            splitDateFormats(e.target.value),
+                                                        )
+                                                    }
+                                                    placeholder="dd/MM/yyyy, MM/dd/yyyy"
+                                                />
+                                                <p className="text-xs text-muted-foreground">
+                                                    Comma-separated date-fns patterns that text dates are parsed with; quote a comma
+                                                    inside a pattern, as in MMM d&apos;,&apos; yyyy. yyyy-MM-dd is always accepted;
+                                                    values matching several patterns are reported as ambiguous.
+                                                </p>
+                                            </div>
                                         </div>
                                     </Card>
                                 </TabsContent>
 
+                                <TabsContent value="time" className="space-y-4 py-4">
+                                    <Card className="p-4">
+                                        <div className="space-y-4">
+                                            <div className="grid grid-cols-2 gap-4">
+                                                <div className="space-y-2">
+                                                    <Label htmlFor="time-min">Earliest Time</Label>
+                                                    <Input
+                                                        id="time-min"
+                                                        type="time"
+                                                        value={currentConfig.dataTypeConfig.time.min || ""}
+                                                        onChange={(e) => handleDataTypeConfigChange("time", "min", e.target.value)}
+                                                    />
+                                                </div>
+
+                                                <div className="space-y-2">
+                                                    <Label htmlFor="time-max">Latest Time</Label>
+                                                    <Input
+                                                        id="time-max"
+                                                        type="time"
+                                                        value={currentConfig.dataTypeConfig.time.max || ""}
+                                                        onChange={(e) => handleDataTypeConfigChange("time", "max", e.target.value)}
+                                                    />
+                                                </div>
+                                            </div>
+
+                                            <div className="space-y-2">
+                                                <Label htmlFor="time-input-formats">Additional Input Formats</Label>
+                                                <Input
+                                                    id="time-input-formats"
+                                                    defaultValue={(currentConfig.dataTypeConfig.time.inputFormats || []).join(", ")}
+                                                    onBlur={(e) =>
+                                                        handleDataTypeConfigChange(
+                                                            "time",
+                                                            "inputFormats",
+                                                            splitDateFormats(e.target.value),
+                                                        )
+                                                    }
+                                                    placeholder="HH.mm, HHmm"
+                                                />
+                                                <p className="text-xs text-muted-foreground">
+                                                    24-hour (14:30, 14:30:15) and 12-hour (2:30 PM) times are always accepted. Times
+                                                    are stored as HH:mm, with seconds when given.
+                                                </p>
+                                            </div>
+                                        </div>
+                                    </Card>
+                                </TabsContent>
+
+                                <TabsContent value="datetime" className="space-y-4 py-4">
+                                    <Card className="p-4">
+                                        <div className="space-y-4">
+                                            <div className="grid grid-cols-2 gap-4">
+                                                <div className="space-y-2">
+                                                    <Label htmlFor="datetime-min">Minimum Date &amp; Time</Label>
+                                                    <Input
+                                                        id="datetime-min"
+                                                        type="datetime-local"
+                                                        value={currentConfig.dataTypeConfig.datetime.min || ""}
+                                                        onChange={(e) => handleDataTypeConfigChange("datetime", "min", e.target.value)}
+                                                    />
+                                                </div>
+
+                                                <div className="space-y-2">
+                                                    <Label htmlFor="datetime-max">Maximum Date &amp; Time</Label>
+                                                    <Input
+                                                        id="datetime-max"
+                                                        type="datetime-local"
+                                                        value={currentConfig.dataTypeConfig.datetime.max || ""}
+                                                        onChange={(e) => handleDataTypeConfigChange("datetime", "max", e.target.value)}
+                                                    />
+                                                </div>
+                                            </div>
+
+                                            <div className="space-y-2">
+                                                <Label htmlFor="datetime-input-formats">Accepted Input Formats</Label>
+                                                <Input
+                                                    id="datetime-input-formats"
+                                                    defaultValue={(currentConfig.dataTypeConfig.datetime.inputFormats || []).join(", ")}
+                                                    onBlur={(e) =>
+                                                        handleDataTypeConfigChange(
+                                                            "datetime",
+                                                            "inputFormats",
+                                                            splitDateFormats(e.target.value),
+                                                        )
+                                                    }
+                                                    placeholder="dd/MM/yyyy HH:mm, MM/dd/yyyy h:mm a"
+                                                />
+                                                <p className="text-xs text-muted-foreground">
+                                                    ISO values such as 2025-04-03 14:30 or 2025-04-03T14:30:00+02:00 are always
+                                                    accepted
+                                                </p>
+                                            </div>
+                                        </div>
+                                    </Card>
+
+                                    <div className="flex items-center justify-between">
+                                        <div>
+                                            <h3 className="text-lg font-medium">Combine Date and Time Columns</h3>
+                                            <p className="text-sm text-muted-foreground">
+                                                Merge a date column and a time column into one timestamp with its time zone offset
+                                            </p>
+                                        </div>
+                                        <Button onClick={handleAddDateTimeCombination} disabled={currentConfig.columns.length < 2}>
+                                            <PlusCircle className="mr-2 h-4 w-4" />
+                                            Add Combination
+                                        </Button>
+                                    </div>
+
+                                    {currentConfig.dateTimeCombinations.map((combination, index) => (
+                                        <Card key={index}>
+                                            <CardContent className="p-4 space-y-4">
+                                                <div className="flex items-center justify-between">
+                                                    <Label>Combination {index + 1}</Label>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        onClick={() => handleRemoveDateTimeCombination(index)}
+                                                    >
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </Button>
+                                                </div>
+
+                                                <div className="grid grid-cols-2 gap-4">
+                                                    <div className="space-y-2">
+                                                        <Label>Date Column</Label>
+                                                        <Select
+                                                            value={combination.dateColumn}
+                                                            onValueChange={(value) =>
+                                                                handleUpdateDateTimeCombination(index, { dateColumn: value })
+                                                            }
+                                                        >
+                                                            <SelectTrigger>
+                                                                <SelectValue placeholder="Select column" />
+                                                            </SelectTrigger>
+                                                            <SelectContent>
+                                                                {currentConfig.columns.map((column) => (
+                                                                    <SelectItem key={column.name} value={column.name}>
+                                                                        {column.displayName || column.name}
+                                                                    </SelectItem>
+                                                                ))}
+                                                            </SelectContent>
+                                                        </Select>
+                                                    </div>
+
+                                                    <div className="space-y-2">
+                                                        <Label>Time Column</Label>
+                                                        <Select
+                                                            value={combination.timeColumn}
+                                                            onValueChange={(value) =>
+                                                                handleUpdateDateTimeCombination(index, { timeColumn: value })
+                                                            }
+                                                        >
+                                                            <SelectTrigger>
+                                                                <SelectValue placeholder="Select column" />
+                                                            </SelectTrigger>
+                                                            <SelectContent>
+                                                                {currentConfig.columns.map((column) => (
+                                                                    <SelectItem key={column.name} value={column.name}>
+                                                                        {column.displayName || column.name}
+                                                                    </SelectItem>
+                                                                ))}
+                                                            </SelectContent>
+                                                        </Select>
+                                                    </div>
+
+                                                    <div className="space-y-2">
+                                                        <Label>Output Column</Label>
+                                                        <Input
+                                                            value={combination.outputColumn}
+                                                            onChange={(e) =>
+                                                                handleUpdateDateTimeCombination(index, { outputColumn: e.target.value })
+                                                            }
+                                                            placeholder="booking_at"
+                                                        />
+                                                    </div>
+
+                                                    <div className="space-y-2">
+                                                        <Label>Time Zone</Label>
+                                                        <Input
+                                                            value={combination.timeZone || ""}
+                                                            onChange={(e) =>
+                                                                handleUpdateDateTimeCombination(index, { timeZone: e.target.value })
+                                                            }
+                                                            placeholder="Browser time zone"
+                                                        />
+                                                        {combination.timeZone && !isValidTimeZone(combination.timeZone) && (
+                                                            <p className="text-xs text-red-500">
+                                                                Unknown time zone, use an IANA name such as Europe/Berlin
+                                                            </p>
+                                                        )}
+                                                    </div>
+                                                </div>
+
+                                                <div className="flex items-center space-x-2">
+                                                    <Switch
+                                                        id={`combination-remove-${index}`}
+                                                        checked={combination.removeSourceColumns}
+                                                        onCheckedChange={(checked) =>
+                                                            handleUpdateDateTimeCombination(index, { removeSourceColumns: checked })
+                                                        }
+                                                    />
+                                                    <Label htmlFor={`combination-remove-${index}`}>
+                                                        Remove the date and time columns from the output
+                                                    </Label>
+                                                </div>
+                                            </CardContent>
+                                        </Card>
+                                    ))}
+                                </TabsContent>
+
                                 <TabsContent value="boolean" className="space-y-4 py-4">
                                     <Card className="p-4">
                                         <div className="space-y-4">
@@ -872,6 +1740,20 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
                                                     <p className="text-xs text-muted-foreground">Comma-separated list of allowed email domains</p>
                                                 </div>
                                             )}
+
+                                            {currentConfig.dataTypeConfig.email.allowedDomains.length > 0 && (
+                                                <div className="space-y-2">
+                                                    <Label htmlFor="email-domain-severity">Other Domains</Label>
+                                                    <SeveritySelect
+                                                        id="email-domain-severity"
+                                                        value={currentConfig.dataTypeConfig.email.domainSeverity}
+                                                        onChange={(severity) => handleDataTypeConfigChange("email", "domainSeverity", severity)}
+                                                    />
+                                                    <p className="text-xs text-muted-foreground">
+                                                        Report addresses outside the allowed domains as an error, a warning or for information
+                                                    </p>
+                                                </div>
+                                            )}
                                         </div>
                                     </Card>
                                 </TabsContent>
@@ -879,6 +1761,30 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
                                 <TabsContent value="phone" className="space-y-4 py-4">
                                     <Card className="p-4">
                                         <div className="space-y-4">
+                                            <div className="space-y-2">
+                                                <Label htmlFor="phone-default-country">Default Country</Label>
+                                                <Select
+                                                    value={currentConfig.dataTypeConfig.phone.defaultCountry}
+                                                    onValueChange={(value) =>
+                                                        handleDataTypeConfigChange("phone", "defaultCountry", value)
+                                                    }
+                                                >
+                                                    <SelectTrigger id="phone-default-country">
+                                                        <SelectValue />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        {PHONE_COUNTRIES.map((country) => (
+                                                            <SelectItem key={country.code} value={country.code}>
+                                                                {country.name} (+{country.callingCode})
+                                                            </SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+                                                <p className="text-xs text-muted-foreground">
+                                                    Numbers without a country code are validated for this country
+                                                </p>
+                                            </div>
+
                                             <div className="space-y-2">
                                                 <Label htmlFor="phone-pattern">Phone Validation Pattern</Label>
                                                 <Input
@@ -888,12 +1794,12 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
                                                     placeholder="Regular expression for phone validation"
                                                 />
                                                 <p className="text-xs text-muted-foreground">
-                                                    Custom regular expression for phone number validation
+                                                    Optional regular expression numbers must also match
                                                 </p>
                                             </div>
 
                                             <div className="space-y-2">
-                                                <Label htmlFor="phone-format">Display Format</Label>
+                                                <Label htmlFor="phone-format">Export Format</Label>
                                                 <Input
                                                     id="phone-format"
                                                     value={currentConfig.dataTypeConfig.phone.format || ""}
@@ -901,7 +1807,7 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
                                                     placeholder="(###) ###-####"
                                                 />
                                                 <p className="text-xs text-muted-foreground">
-                                                    Format for displaying phone numbers (use # as placeholder)
+                                                    Format for exported phone numbers (use # as placeholder, or E.164)
                                                 </p>
                                             </div>
 
@@ -920,6 +1826,402 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
                                 </TabsContent>
                             </Tabs>
                         </div>
+
+                        <Separator />
+
+                        <div className="space-y-4">
+                            <div>
+                                <h3 className="text-lg font-medium">Remote Validation</h3>
+                                <p className="text-sm text-muted-foreground">
+                                    Limits for &quot;Remote Check&quot; rules. Values a service cannot answer for in time are
+                                    reported as warnings and do not block the import.
+                                </p>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label htmlFor="remote-batch-size">Values per Request</Label>
+                                    <Input
+                                        id="remote-batch-size"
+                                        type="number"
+                                        min="1"
+                                        value={currentConfig.remoteValidation.batchSize.toString()}
+                                        onChange={(e) =>
+                                            handleRemoteValidationChange("batchSize", Number.parseInt(e.target.value) || 1)
+                                        }
+                                    />
+                                </div>
+
+                                <div className="space-y-2">
+                                    <Label htmlFor="remote-concurrency">Parallel Requests</Label>
+                                    <Input
+                                        id="remote-concurrency"
+                                        type="number"
+                                        min="1"
+                                        value={currentConfig.remoteValidation.concurrency.toString()}
+                                        onChange={(e) =>
+                                            handleRemoteValidationChange("concurrency", Number.parseInt(e.target.value) || 1)
+                                        }
+                                    />
+                                </div>
+
+                                <div className="space-y-2">
+                                    <Label htmlFor="remote-timeout">Timeout (ms)</Label>
+                                    <Input
+                                        id="remote-timeout"
+                                        type="number"
+                                        min="1000"
+                                        value={currentConfig.remoteValidation.timeoutMs.toString()}
+                                        onChange={(e) =>
+                                            handleRemoteValidationChange("timeoutMs", Number.parseInt(e.target.value) || 1000)
+                                        }
+                                    />
+                                </div>
+
+                                <div className="space-y-2">
+                                    <Label htmlFor="remote-cache-ttl">Cache Answers For (ms)</Label>
+                                    <Input
+                                        id="remote-cache-ttl"
+                                        type="number"
+                                        min="0"
+                                        value={currentConfig.remoteValidation.cacheTtlMs.toString()}
+                                        onChange={(e) =>
+                                            handleRemoteValidationChange("cacheTtlMs", Number.parseInt(e.target.value) || 0)
+                                        }
+                                    />
+                                </div>
+                            </div>
+                        </div>
+                    </TabsContent>
+
+                    {/* Row Rules Configuration */}
+                    <TabsContent value="rowRules" className="space-y-4 py-4">
+                        <div className="flex items-center justify-between">
+                            <div>
+                                <h3 className="text-lg font-medium">Row Rules</h3>
+                                <p className="text-sm text-muted-foreground">
+                                    Checks that compare columns of the same row, optionally only for matching rows
+                                </p>
+                            </div>
+                            <Button onClick={handleAddRowRule} disabled={currentConfig.columns.length === 0}>
+                                <PlusCircle className="mr-2 h-4 w-4" />
+                                Add Row Rule
+                            </Button>
+                        </div>
+
+                        <ScrollArea className="h-[400px] rounded-md border">
+                            <div className="p-4 space-y-4">
+                                {currentConfig.rowRules.map((rule, index) => (
+                                    <Card key={index}>
+                                        <CardContent className="p-4 space-y-4">
+                                            <div className="flex items-center justify-between">
+                                                <div className="flex items-center space-x-2">
+                                                    <Switch
+                                                        id={`row-rule-when-${index}`}
+                                                        checked={!!rule.when}
+                                                        onCheckedChange={(checked) =>
+                                                            handleUpdateRowRule(index, {
+                                                                ...rule,
+                                                                when: checked
+                                                                    ? { column: rule.check.column, operator: "equals", value: "" }
+                                                                    : undefined,
+                                                            })
+                                                        }
+                                                    />
+                                                    <Label htmlFor={`row-rule-when-${index}`}>Only check rows where</Label>
+                                                </div>
+                                                <Button variant="ghost" size="icon" onClick={() => handleRemoveRowRule(index)}>
+                                                    <Trash2 className="h-4 w-4" />
+                                                </Button>
+                                            </div>
+
+                                            {rule.when && (
+                                                <RowConditionFields
+                                                    condition={rule.when}
+                                                    columns={currentConfig.columns}
+                                                    onChange={(when) => handleUpdateRowRule(index, { ...rule, when })}
+                                                />
+                                            )}
+
+                                            <div className="space-y-2">
+                                                <Label>Require that</Label>
+                                                <RowConditionFields
+                                                    condition={rule.check}
+                                                    columns={currentConfig.columns}
+                                                    onChange={(check) => handleUpdateRowRule(index, { ...rule, check })}
+                                                />
+                                            </div>
+
+                                            <div className="space-y-2">
+                                                <Label>Error Message</Label>
+                                                <Input
+                                                    value={rule.message}
+                                                    onChange={(e) => handleUpdateRowRule(index, { ...rule, message: e.target.value })}
+                                                    placeholder={getRowRuleMessage(rule)}
+                                                />
+                                            </div>
+
+                                            <div className="space-y-2">
+                                                <Label>Severity</Label>
+                                                <SeveritySelect
+                                                    value={rule.severity}
+                                                    onChange={(severity) => handleUpdateRowRule(index, { ...rule, severity })}
+                                                />
+                                            </div>
+                                        </CardContent>
+                                    </Card>
+                                ))}
+
+                                {currentConfig.rowRules.length === 0 && (
+                                    <div className="flex flex-col items-center justify-center py-8 text-center">
+                                        <p className="text-muted-foreground">No row rules configured</p>
+                                        <p className="text-sm text-muted-foreground mt-1">
+                                            For example, require an email when the customer type is corporate
+                                        </p>
+                                    </div>
+                                )}
+                            </div>
+                        </ScrollArea>
+                    </TabsContent>
+
+                    {/* Duplicate Detection Configuration */}
+                    <TabsContent value="duplicates" className="space-y-4 py-4">
+                        <div className="space-y-4">
+                            <h3 className="text-lg font-medium">Duplicate Detection</h3>
+
+                            <div className="flex items-center space-x-2">
+                                <Switch
+                                    id="detect-duplicate-rows"
+                                    checked={currentConfig.detectDuplicateRows}
+                                    onCheckedChange={(checked) =>
+                                        setCurrentConfig({ ...currentConfig, detectDuplicateRows: checked })
+                                    }
+                                />
+                                <Label htmlFor="detect-duplicate-rows">Report rows that repeat another row exactly</Label>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label htmlFor="duplicate-handling">When Duplicates Are Found</Label>
+                                <Select
+                                    value={currentConfig.duplicateHandling}
+                                    onValueChange={(value) =>
+                                        setCurrentConfig({ ...currentConfig, duplicateHandling: value as DuplicateHandling })
+                                    }
+                                >
+                                    <SelectTrigger id="duplicate-handling">
+                                        <SelectValue placeholder="Select handling" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="keepFirst">Keep the first occurrence</SelectItem>
+                                        <SelectItem value="keepLast">Keep the last occurrence</SelectItem>
+                                        <SelectItem value="flagAll">Flag all occurrences as errors</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                                <p className="text-sm text-muted-foreground">
+                                    Skipped occurrences are listed in the validation results but do not block the import
+                                </p>
+                            </div>
+                        </div>
+
+                        <Separator />
+
+                        <div className="flex items-center justify-between">
+                            <div>
+                                <h3 className="text-lg font-medium">Unique Keys</h3>
+                                <p className="text-sm text-muted-foreground">
+                                    Columns whose combined values must not repeat, compared ignoring case and spacing
+                                </p>
+                            </div>
+                            <Button onClick={handleAddUniqueKey} disabled={currentConfig.columns.length === 0}>
+                                <PlusCircle className="mr-2 h-4 w-4" />
+                                Add Unique Key
+                            </Button>
+                        </div>
+
+                        <div className="space-y-4">
+                            {currentConfig.uniqueKeys.map((uniqueKey, index) => (
+                                <Card key={index}>
+                                    <CardContent className="p-4 space-y-4">
+                                        <div className="flex items-center justify-between">
+                                            <Label>Key Columns</Label>
+                                            <Button variant="ghost" size="icon" onClick={() => handleRemoveUniqueKey(index)}>
+                                                <Trash2 className="h-4 w-4" />
+                                            </Button>
+                                        </div>
+
+                                        <div className="grid grid-cols-3 gap-2">
+                                            {currentConfig.columns.map((column) => (
+                                                <div key={column.name} className="flex items-center space-x-2">
+                                                    <Checkbox
+                                                        id={`unique-key-${index}-${column.name}`}
+                                                        checked={uniqueKey.columns.includes(column.name)}
+                                                        onCheckedChange={(checked) =>
+                                                            handleUniqueKeyColumnChange(index, column.name, checked as boolean)
+                                                        }
+                                                    />
+                                                    <Label htmlFor={`unique-key-${index}-${column.name}`} className="text-sm">
+                                                        {column.displayName || column.name}
+                                                    </Label>
+                                                </div>
+                                            ))}
+                                        </div>
+
+                                        <div className="space-y-2">
+                                            <Label>Error Message</Label>
+                                            <Input
+                                                value={uniqueKey.message || ""}
+                                                onChange={(e) => handleUniqueKeyMessageChange(index, e.target.value)}
+                                                placeholder="Duplicate booking"
+                                            />
+                                        </div>
+                                    </CardContent>
+                                </Card>
+                            ))}
+
+                            {currentConfig.uniqueKeys.length === 0 && (
+                                <p className="text-sm text-muted-foreground text-center py-4">No unique keys configured</p>
+                            )}
+                        </div>
+                    </TabsContent>
+
+                    <TabsContent value="lookups" className="space-y-4 py-4">
+                        <div className="flex items-center justify-between">
+                            <div>
+                                <h3 className="text-lg font-medium">Lookup Tables</h3>
+                                <p className="text-sm text-muted-foreground">
+                                    Named value lists for &quot;Lookup Table&quot; rules. Loaded values are cached in the browser
+                                    and versioned; reload a table after its source changes.
+                                </p>
+                            </div>
+                            <Button onClick={handleAddLookupTable}>
+                                <PlusCircle className="mr-2 h-4 w-4" />
+                                Add Lookup Table
+                            </Button>
+                        </div>
+
+                        <div className="space-y-4">
+                            {currentConfig.lookupTables.map((table, index) => {
+                                // Values loaded for another source or location are shown as not loaded
+                                const cached = matchesLookupTable(table, lookupCache[table.name])
+                                    ? lookupCache[table.name]
+                                    : undefined
+
+                                return (
+                                    <Card key={index}>
+                                        <CardContent className="p-4 space-y-4">
+                                            <div className="flex items-center justify-between">
+                                                <div className="flex items-center space-x-2">
+                                                    <Label>Lookup Table</Label>
+                                                    {cached ? (
+                                                        <Badge variant="secondary">
+                                                            v{cached.version} &middot; {cached.values.length} values
+                                                        </Badge>
+                                                    ) : (
+                                                        <Badge variant="outline">Not loaded</Badge>
+                                                    )}
+                                                </div>
+                                                <Button variant="ghost" size="icon" onClick={() => handleRemoveLookupTable(index)}>
+                                                    <Trash2 className="h-4 w-4" />
+                                                </Button>
+                                            </div>
+
+                                            <div className="grid grid-cols-3 gap-4">
+                                                <div className="space-y-2">
+                                                    <Label>Name</Label>
+                                                    <Input
+                                                        value={table.name}
+                                                        onChange={(e) => handleUpdateLookupTable(index, { name: e.target.value })}
+                                                        placeholder="vehicle_types"
+                                                    />
+                                                </div>
+
+                                                <div className="space-y-2">
+                                                    <Label>Source</Label>
+                                                    <Select
+                                                        value={table.source}
+                                                        onValueChange={(value) =>
+                                                            handleUpdateLookupTable(index, { source: value as LookupSource })
+                                                        }
+                                                    >
+                                                        <SelectTrigger>
+                                                            <SelectValue />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            <SelectItem value="upload">Uploaded file</SelectItem>
+                                                            <SelectItem value="public">JSON file in public/</SelectItem>
+                                                            <SelectItem value="endpoint">Local endpoint</SelectItem>
+                                                        </SelectContent>
+                                                    </Select>
+                                                </div>
+
+                                                <div className="space-y-2">
+                                                    <Label>Value Column</Label>
+                                                    <Input
+                                                        value={table.valueColumn || ""}
+                                                        onChange={(e) => handleUpdateLookupTable(index, { valueColumn: e.target.value })}
+                                                        placeholder="First column"
+                                                    />
+                                                </div>
+                                            </div>
+
+                                            {table.source === "upload" ? (
+                                                <div className="space-y-2">
+                                                    <Label htmlFor={`lookup-file-${index}`}>CSV, XLSX or JSON File</Label>
+                                                    <Input
+                                                        id={`lookup-file-${index}`}
+                                                        type="file"
+                                                        accept=".csv,.xlsx,.xls,.json"
+                                                        disabled={!table.name || lookupLoading === table.name}
+                                                        onChange={(e) => {
+                                                            const file = e.target.files?.[0]
+                                                            if (file) handleLoadLookupTable(table, file)
+                                                            e.target.value = ""
+                                                        }}
+                                                    />
+                                                </div>
+                                            ) : (
+                                                <div className="flex items-end space-x-2">
+                                                    <div className="flex-1 space-y-2">
+                                                        <Label>{table.source === "public" ? "File Path" : "Endpoint URL"}</Label>
+                                                        <Input
+                                                            value={table.location || ""}
+                                                            onChange={(e) => handleUpdateLookupTable(index, { location: e.target.value })}
+                                                            placeholder={
+                                                                table.source === "public"
+                                                                    ? "/lookups/vehicle-types.json"
+                                                                    : "/api/lookups/vehicle-types"
+                                                            }
+                                                        />
+                                                    </div>
+                                                    <Button
+                                                        variant="outline"
+                                                        onClick={() => handleLoadLookupTable(table)}
+                                                        disabled={!table.name || !table.location || lookupLoading === table.name}
+                                                    >
+                                                        {cached ? "Reload" : "Load"}
+                                                    </Button>
+                                                </div>
+                                            )}
+
+                                            {cached && (
+                                                <p className="text-xs text-muted-foreground">
+                                                    Loaded from {cached.origin} on {new Date(cached.loadedAt).toLocaleString()}:{" "}
+                                                    {cached.values.slice(0, 5).join(", ")}
+                                                    {cached.values.length > 5 ? ", ..." : ""}
+                                                </p>
+                                            )}
+                                            {lookupErrors[table.name] && (
+                                                <p className="text-xs text-destructive">{lookupErrors[table.name]}</p>
+                                            )}
+                                        </CardContent>
+                                    </Card>
+                                )
+                            })}
+
+                            {currentConfig.lookupTables.length === 0 && (
+                                <p className="text-sm text-muted-foreground text-center py-4">No lookup tables configured</p>
+                            )}
+                        </div>
                     </TabsContent>
                 </Tabs>
             </CardContent>
@@ -937,6 +2239,311 @@ export function AdvancedConfigPanel({ config, onSave, onCancel }: AdvancedConfig
     )
 }
 
+const ROW_CONDITION_OPERATORS: { value: RowConditionOperator; label: string }[] = [
+    { value: "equals", label: "is" },
+    { value: "notEquals", label: "is not" },
+    { value: "empty", label: "is empty" },
+    { value: "notEmpty", label: "is not empty" },
+    { value: "isTrue", label: "is true" },
+    { value: "isFalse", label: "is false" },
+    { value: "equalsColumn", label: "matches column" },
+    { value: "notEqualsColumn", label: "differs from column" },
+]
+
+interface RowConditionFieldsProps {
+    condition: RowCondition
+    columns: ColumnConfig[]
+    onChange: (condition: RowCondition) => void
+}
+
+// Column, operator and compared value of one row rule condition
+function RowConditionFields({ condition, columns, onChange }: RowConditionFieldsProps) {
+    const comparesColumn = condition.operator === "equalsColumn" || condition.operator === "notEqualsColumn"
+    const comparesValue = condition.operator === "equals" || condition.operator === "notEquals"
+
+    const columnSelect = (value: string, onValueChange: (value: string) => void) => (
+        <Select value={value} onValueChange={onValueChange}>
+            <SelectTrigger>
+                <SelectValue placeholder="Select column" />
+            </SelectTrigger>
+            <SelectContent>
+                {columns.map((column) => (
+                    <SelectItem key={column.name} value={column.name}>
+                        {column.displayName || column.name}
+                    </SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    )
+
+    return (
+        <div className="grid grid-cols-3 gap-2">
+            {columnSelect(condition.column, (column) => onChange({ ...condition, column }))}
+
+            <Select
+                value={condition.operator}
+                onValueChange={(value) => onChange({ ...condition, operator: value as RowConditionOperator })}
+            >
+                <SelectTrigger>
+                    <SelectValue placeholder="Select condition" />
+                </SelectTrigger>
+                <SelectContent>
+                    {ROW_CONDITION_OPERATORS.map((operator) => (
+                        <SelectItem key={operator.value} value={operator.value}>
+                            {operator.label}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+
+            {comparesColumn &&
+                columnSelect(condition.otherColumn || "", (otherColumn) => onChange({ ...condition, otherColumn }))}
+            {comparesValue && (
+                <Input
+                    value={condition.value || ""}
+                    onChange={(e) => onChange({ ...condition, value: e.target.value })}
+                    placeholder="Value"
+                />
+            )}
+        </div>
+    )
+}
+
+const SEVERITIES: { value: ValidationSeverity; label: string }[] = [
+    { value: "error", label: "Error (blocks import)" },
+    { value: "warning", label: "Warning" },
+    { value: "info", label: "Info" },
+]
+
+interface SeveritySelectProps {
+    id?: string
+    value?: ValidationSeverity
+    onChange: (severity: ValidationSeverity) => void
+}
+
+// Severity of a check, defaulting to error
+function SeveritySelect({ id, value, onChange }: SeveritySelectProps) {
+    return (
+        <Select value={value || "error"} onValueChange={(severity) => onChange(severity as ValidationSeverity)}>
+            <SelectTrigger id={id}>
+                <SelectValue placeholder="Select severity" />
+            </SelectTrigger>
+            <SelectContent>
+                {SEVERITIES.map((severity) => (
+                    <SelectItem key={severity.value} value={severity.value}>
+                        {severity.label}
+                    </SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    )
+}
+
+type TypeSettingKind = "number" | "nullableNumber" | "text" | "list" | "boolean"
+
+// Type settings that can be overridden per column, mirroring the Data Validation tab
+const TYPE_SETTING_FIELDS: Record<ColumnConfig["type"], { field: string; label: string; kind: TypeSettingKind }[]> = {
+    string: [
+        { field: "minLength", label: "Minimum Length", kind: "number" },
+        { field: "maxLength", label: "Maximum Length", kind: "number" },
+        { field: "trim", label: "Trim whitespace", kind: "boolean" },
+    ],
+    number: [
+        { field: "min", label: "Minimum Value", kind: "nullableNumber" },
+        { field: "max", label: "Maximum Value", kind: "nullableNumber" },
+        { field: "precision", label: "Decimal Precision", kind: "number" },
+        { field: "integerOnly", label: "Integer values only", kind: "boolean" },
+        { field: "decimalSeparator", label: "Decimal Separator", kind: "text" },
+        { field: "thousandsSeparator", label: "Thousands Separator", kind: "text" },
+        { field: "currencySymbols", label: "Currency Symbols and Codes", kind: "list" },
+        { field: "allowPercent", label: "Accept percentages", kind: "boolean" },
+    ],
+    date: [
+        { field: "min", label: "Minimum Date", kind: "text" },
+        { field: "max", label: "Maximum Date", kind: "text" },
+        { field: "format", label: "Date Format", kind: "text" },
+        { field: "inputFormats", label: "Accepted Input Formats", kind: "list" },
+    ],
+    time: [
+        { field: "min", label: "Earliest Time", kind: "text" },
+        { field: "max", label: "Latest Time", kind: "text" },
+        { field: "inputFormats", label: "Additional Input Formats", kind: "list" },
+    ],
+    datetime: [
+        { field: "min", label: "Minimum Date & Time", kind: "text" },
+        { field: "max", label: "Maximum Date & Time", kind: "text" },
+        { field: "inputFormats", label: "Accepted Input Formats", kind: "list" },
+    ],
+    boolean: [
+        { field: "trueValues", label: "True Values", kind: "list" },
+        { field: "falseValues", label: "False Values", kind: "list" },
+        { field: "caseSensitive", label: "Case sensitive", kind: "boolean" },
+    ],
+    email: [
+        { field: "allowedDomains", label: "Allowed Domains", kind: "list" },
+        { field: "pattern", label: "Email Validation Pattern", kind: "text" },
+    ],
+    phone: [
+        { field: "defaultCountry", label: "Default Country", kind: "text" },
+        { field: "pattern", label: "Phone Validation Pattern", kind: "text" },
+        { field: "format", label: "Export Format", kind: "text" },
+        { field: "allowInternational", label: "Allow international formats", kind: "boolean" },
+    ],
+}
+
+function describeSetting(value: unknown): string {
+    if (typeof value === "boolean") return value ? "Yes" : "No"
+    if (Array.isArray(value)) return value.join(", ") || "none"
+    return value === undefined || value === null || value === "" ? "none" : String(value)
+}
+
+interface ColumnTypeSettingsProps {
+    column: ColumnConfig
+    defaults: DataTypeConfig
+    onChange: (typeConfig: ColumnTypeConfig | undefined) => void
+}
+
+// Per-column overrides of the global type settings; empty fields use the global value
+function ColumnTypeSettings({ column, defaults, onChange }: ColumnTypeSettingsProps) {
+    const type = column.type
+    const overrides: Record<string, unknown> = { ...column.typeConfig?.[type] }
+    const globalValues = defaults[type] as unknown as Record<string, unknown>
+
+    const setOverride = (field: string, value: unknown) => {
+        const updated = { ...overrides, [field]: value }
+        if (value === undefined) delete updated[field]
+
+        const typeConfig: ColumnTypeConfig = { ...column.typeConfig, [type]: updated }
+        if (Object.keys(updated).length === 0) delete typeConfig[type]
+        onChange(Object.keys(typeConfig).length > 0 ? typeConfig : undefined)
+    }
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <Label>{getDataTypeLabel(type)} Settings for This Column</Label>
+                <p className="text-xs text-muted-foreground">
+                    Leave a setting empty to use the global value from the Data Validation tab
+                </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+                {TYPE_SETTING_FIELDS[type].map(({ field, label, kind }) => {
+                    const id = `column-type-${field}`
+                    const value = overrides[field]
+                    const placeholder = `Default: ${describeSetting(globalValues[field])}`
+
+                    return (
+                        <div key={`${type}-${field}`} className="space-y-2">
+                            <Label htmlFor={id}>{label}</Label>
+
+                            {kind === "boolean" && (
+                                <Select
+                                    value={value === undefined ? "default" : String(value)}
+                                    onValueChange={(v) => setOverride(field, v === "default" ? undefined : v === "true")}
+                                >
+                                    <SelectTrigger id={id}>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="default">{placeholder}</SelectItem>
+                                        <SelectItem value="true">Yes</SelectItem>
+                                        <SelectItem value="false">No</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            )}
+
+                            {(kind === "number" || kind === "nullableNumber") && (
+                                <Input
+                                    id={id}
+                                    type="number"
+                                    value={value === undefined || value === null ? "" : String(value)}
+                                    disabled={value === null}
+                                    placeholder={value === null ? "No limit" : placeholder}
+                                    onChange={(e) =>
+                                        setOverride(field, e.target.value === "" ? undefined : Number.parseFloat(e.target.value))
+                                    }
+                                />
+                            )}
+
+                            {kind === "nullableNumber" && (
+                                <div className="flex items-center space-x-2">
+                                    <Checkbox
+                                        id={`${id}-none`}
+                                        checked={value === null}
+                                        onCheckedChange={(checked) => setOverride(field, checked ? null : undefined)}
+                                    />
+                                    <Label htmlFor={`${id}-none`} className="text-xs font-normal">
+                                        No limit for this column
+                                    </Label>
+                                </div>
+                            )}
+
+                            {kind === "text" && (
+                                <Input
+                                    id={id}
+                                    value={value === undefined ? "" : String(value)}
+                                    placeholder={placeholder}
+                                    onChange={(e) => setOverride(field, e.target.value === "" ? undefined : e.target.value)}
+                                />
+                            )}
+
+                            {kind === "list" && (
+                                // Applied on blur so commas can be typed freely
+                                <Input
+                                    id={id}
+                                    defaultValue={Array.isArray(value) ? value.join(", ") : ""}
+                                    placeholder={placeholder}
+                                    onBlur={(e) => {
+                                        const items =
+                                            field === "inputFormats"
+                                                ? splitDateFormats(e.target.value)
+                                                : e.target.value
+                                                      .split(",")
+                                                      .map((item) => item.trim())
+                                                      .filter(Boolean)
+                                        setOverride(field, items.length > 0 ? items : undefined)
+                                    }}
+                                />
+                            )}
+                        </div>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
+
+interface ExpressionInputProps {
+    value: string
+    onChange: (value: string) => void
+}
+
+// Custom rule expression with parse errors shown while typing
+function ExpressionInput({ value, onChange }: ExpressionInputProps) {
+    const error = value.trim() ? getExpressionError(value) : null
+
+    return (
+        <div className="space-y-2">
+            <Label>Expression</Label>
+            <Input
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                placeholder={getValidationPlaceholder("custom")}
+                className={error ? "font-mono border-destructive" : "font-mono"}
+            />
+            {error ? (
+                <p className="text-xs text-destructive">{error}</p>
+            ) : (
+                <p className="text-xs text-muted-foreground">
+                    Use value for this cell and row.column_name for other columns. Functions: isEmpty, number, text,
+                    matches, abs, round, min, max.
+                </p>
+            )}
+        </div>
+    )
+}
+
 // Helper functions
 function getDataTypeLabel(type: string): string {
     const labels: Record<string, string> = {
@@ -958,6 +2565,10 @@ function getFormatPlaceholder(type: string): string {
             return "#,###.##"
         case "date":
             return "YYYY-MM-DD"
+        case "time":
+            return "HH:mm"
+        case "datetime":
+            return "YYYY-MM-DD HH:mm"
         case "email":
             return "user@example.com"
         case "phone":
@@ -975,10 +2586,14 @@ function getFormatDescription(type: string): string {
             return "Number format pattern (e.g., #,###.## for 1,234.56)"
         case "date":
             return "Date format pattern (e.g., YYYY-MM-DD, MM/DD/YYYY)"
+        case "time":
+            return "Time display format (e.g., HH:mm, hh:mm AM/PM)"
+        case "datetime":
+            return "Date and time format pattern (e.g., YYYY-MM-DD HH:mm)"
         case "email":
             return "Email format validation pattern"
         case "phone":
-            return "Phone number format (e.g., (###) ###-####)"
+            return "Phone number export format (e.g., (###) ###-####, or E.164)"
         case "boolean":
             return "Boolean representation format"
         default:
@@ -990,6 +2605,7 @@ function getValidationRuleTypes(columnType: string): { value: string; label: str
     const commonRules = [
         { value: "required", label: "Required" },
         { value: "custom", label: "Custom" },
+        { value: "remote", label: "Remote Check" },
     ]
 
     switch (columnType) {
@@ -1000,6 +2616,7 @@ function getValidationRuleTypes(columnType: string): { value: string; label: str
                 { value: "max", label: "Max Length" },
                 { value: "pattern", label: "Pattern Match" },
                 { value: "enum", label: "Allowed Values" },
+                { value: "lookup", label: "Lookup Table" },
             ]
         case "number":
             return [
@@ -1016,6 +2633,20 @@ function getValidationRuleTypes(columnType: string): { value: string; label: str
                 { value: "max", label: "Max Date" },
                 { value: "range", label: "Date Range" },
             ]
+        case "time":
+            return [
+                ...commonRules,
+                { value: "min", label: "Earliest Time" },
+                { value: "max", label: "Latest Time" },
+                { value: "range", label: "Time Range" },
+            ]
+        case "datetime":
+            return [
+                ...commonRules,
+                { value: "min", label: "Earliest Date & Time" },
+                { value: "max", label: "Latest Date & Time" },
+                { value: "range", label: "Date & Time Range" },
+            ]
         case "email":
             return [
                 ...commonRules,
@@ -1037,16 +2668,20 @@ function getValidationPlaceholder(ruleType: string): string {
             return "Maximum value or length"
         case "pattern":
             return "Regular expression pattern"
+        case "custom":
+            return 'e.g. value.length <= 200 && !value.includes("http")'
         case "enum":
             return "Comma-separated list of allowed values"
         case "range":
-            return "min-max (e.g., 1-100)"
+            return "min-max (e.g., 1-100, 09:00-17:00, 2025-01-01..2025-12-31)"
         case "precision":
             return "Number of decimal places"
         case "domain":
             return "Comma-separated list of allowed domains"
         case "length":
             return "Exact length or min-max range"
+        case "remote":
+            return "Endpoint URL, e.g. /api/validate/customer-phone"
         default:
             return ""
     }
@@ -22,7 +22,8 @@ import {
 } from "@/components/ui/dialog"
 import { CheckCircle, FileWarning, Send, X, Code, Settings, Key, Upload, FileUp, Database } from "lucide-react"
 import { submitDataToApi, submitFileToApi, validateFile } from "@/lib/api-utils"
-import { exportToExcel } from "@/lib/excel-utils"
+import { formatDateValue } from "@/lib/excel-utils"
+import { ExportDialog } from "./export-dialog"
 
 interface ApiSubmissionDialogProps {
     data: any[]
@@ -59,6 +60,7 @@ export function ApiSubmissionDialog({
     const [includeAllFields, setIncludeAllFields] = useState<boolean>(true)
     const [selectedFields, setSelectedFields] = useState<string[]>([])
     const [showResponse, setShowResponse] = useState<boolean>(false)
+    const [showExportDialog, setShowExportDialog] = useState<boolean>(false)
     const [submissionType, setSubmissionType] = useState<"json" | "file">(initialSubmissionType)
     const [customFile, setCustomFile] = useState<File | null>(null)
     const [fileFieldName, setFileFieldName] = useState<string>("file")
@@ -140,15 +142,13 @@ export function ApiSubmissionDialog({
     }
 
     const prepareDataForSubmission = () => {
-        if (includeAllFields) {
-            return data
-        }
-
         return data.map((item) => {
             const filteredItem: Record<string, any> = {}
-            selectedFields.forEach((field) => {
+            const fields = includeAllFields ? Object.keys(item) : selectedFields
+            fields.forEach((field) => {
                 if (field in item) {
-                    filteredItem[field] = item[field]
+                    // Dates are sent as local YYYY-MM-DD values rather than UTC timestamps
+                    filteredItem[field] = item[field] instanceof Date ? formatDateValue(item[field]) : item[field]
                 }
             })
             return filteredItem
@@ -211,11 +211,9 @@ export function ApiSubmissionDialog({
         setIsSubmitting(false)
     }
 
-    const handleExportToExcel = () => {
+    const handleExport = () => {
         if (data.length === 0) return
-
-        const dataToExport = prepareDataForSubmission()
-        exportToExcel(dataToExport, "api_submission_data")
+        setShowExportDialog(true)
     }
 
     return (
@@ -466,8 +464,8 @@ export function ApiSubmissionDialog({
                                 </div>
 
                                 <div className="flex justify-end">
-                                    <Button variant="outline" size="sm" onClick={handleExportToExcel} disabled={isSubmitting}>
-                                        Export Data to Excel
+                                    <Button variant="outline" size="sm" onClick={handleExport} disabled={isSubmitting}>
+                                        Export Data
                                     </Button>
                                 </div>
                             </>
@@ -621,6 +619,15 @@ export function ApiSubmissionDialog({
                         {isSubmitting ? "Sending..." : "Send Data"}
                     </Button>
                 </DialogFooter>
+
+                {showExportDialog && (
+                    <ExportDialog
+                        open={showExportDialog}
+                        onOpenChange={setShowExportDialog}
+                        data={prepareDataForSubmission()}
+                        fileName="api_submission_data"
+                    />
+                )}
             </DialogContent>
         </Dialog>
     )
@@ -0,0 +1,89 @@
+"use client"
+
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ArrowRight, Wand2 } from "lucide-react"
+import { AUTO_FIX_LABELS, type AutoFixGroup } from "@/lib/auto-fix"
+
+interface AutoFixPreviewDialogProps {
+    // Fixes to preview; the dialog is closed when null
+    group: AutoFixGroup | null
+    onConfirm: (group: AutoFixGroup) => void
+    onCancel: () => void
+}
+
+// Quoted so that leading and trailing whitespace is visible
+function describeValue(value: unknown): string {
+    if (value === undefined || value === null || value === "") return "(empty)"
+    return typeof value === "string" ? `"${value}"` : String(value)
+}
+
+export function AutoFixPreviewDialog({ group, onConfirm, onCancel }: AutoFixPreviewDialogProps) {
+    const changes = group?.changes || []
+    const showSheet = new Set(changes.map((change) => change.sheet)).size > 1
+
+    return (
+        <Dialog open={!!group} onOpenChange={(open) => !open && onCancel()}>
+            <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center">
+                        <Wand2 className="mr-2 h-5 w-5" />
+                        {group ? AUTO_FIX_LABELS[group.kind] : "Apply Fixes"}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {changes.length} {changes.length === 1 ? "cell" : "cells"} in &quot;{group?.column}&quot; will be
+                        changed as shown. The data is validated again afterwards.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <ScrollArea className="h-[300px]">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                {showSheet && <TableHead className="w-[120px]">Sheet</TableHead>}
+                                <TableHead className="w-[80px]">Row</TableHead>
+                                <TableHead>Current Value</TableHead>
+                                <TableHead className="w-[40px]" />
+                                <TableHead>Fixed Value</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {changes.map((change) => (
+                                <TableRow key={change.rowIndex}>
+                                    {showSheet && <TableCell>{change.sheet}</TableCell>}
+                                    <TableCell>{change.row}</TableCell>
+                                    <TableCell className="font-mono text-sm text-destructive line-through">
+                                        {describeValue(change.before)}
+                                    </TableCell>
+                                    <TableCell>
+                                        <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                                    </TableCell>
+                                    <TableCell className="font-mono text-sm text-green-700">{describeValue(change.after)}</TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </ScrollArea>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={onCancel}>
+                        Cancel
+                    </Button>
+                    <Button onClick={() => group && onConfirm(group)} disabled={changes.length === 0}>
+                        <Wand2 className="mr-2 h-4 w-4" />
+                        Apply {changes.length} {changes.length === 1 ? "Fix" : "Fixes"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -0,0 +1,120 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import type { ColumnConfig, ColumnProfile } from "@/lib/types"
+
+interface DataProfileProps {
+    profiles: ColumnProfile[]
+    // Configured columns, to point out where the inferred type differs
+    columns?: ColumnConfig[]
+}
+
+function formatPercent(rate: number): string {
+    return `${Math.round(rate * 1000) / 10}%`
+}
+
+export function DataProfile({ profiles, columns = [] }: DataProfileProps) {
+    if (profiles.length === 0) {
+        return <p className="text-center text-muted-foreground">No columns to profile</p>
+    }
+
+    return (
+        <div className="grid gap-4 md:grid-cols-2">
+            {profiles.map((profile) => (
+                <ColumnProfileCard
+                    key={profile.name}
+                    profile={profile}
+                    column={columns.find((column) => column.name === profile.name)}
+                />
+            ))}
+        </div>
+    )
+}
+
+interface ColumnProfileCardProps {
+    profile: ColumnProfile
+    column?: ColumnConfig
+}
+
+function ColumnProfileCard({ profile, column }: ColumnProfileCardProps) {
+    const fillRate = profile.total > 0 ? profile.filled / profile.total : 0
+    const typeDiffers = column && column.type !== profile.inferredType
+
+    return (
+        <Card>
+            <CardHeader className="pb-2">
+                <CardTitle className="flex items-center justify-between text-base">
+                    <span className="truncate">{column?.displayName || profile.name}</span>
+                    <div className="flex items-center space-x-1">
+                        <Badge variant="secondary">{profile.inferredType}</Badge>
+                        {profile.filled > 0 && profile.typeMatchRate < 1 && (
+                            <Badge variant="outline">{formatPercent(profile.typeMatchRate)} match</Badge>
+                        )}
+                    </div>
+                </CardTitle>
+                {typeDiffers && (
+                    <p className="text-xs text-amber-700">
+                        Configured as {column.type}; the values look like {profile.inferredType}
+                    </p>
+                )}
+            </CardHeader>
+
+            <CardContent className="space-y-4 text-sm">
+                <div className="space-y-1">
+                    <div className="flex justify-between">
+                        <span className="text-muted-foreground">Filled</span>
+                        <span>
+                            {profile.filled} of {profile.total} ({formatPercent(fillRate)})
+                        </span>
+                    </div>
+                    <Progress value={fillRate * 100} />
+                </div>
+
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                    <span className="text-muted-foreground">Distinct values</span>
+                    <span>{profile.distinct}</span>
+                    {profile.min !== undefined && (
+                        <>
+                            <span className="text-muted-foreground">Min / Max</span>
+                            <span className="truncate">
+                                {profile.min} / {profile.max}
+                            </span>
+                        </>
+                    )}
+                    <span className="text-muted-foreground">Length</span>
+                    <span>
+                        {profile.minLength}–{profile.maxLength} (avg {profile.averageLength.toFixed(1)})
+                    </span>
+                </div>
+
+                {profile.topValues.length > 0 && (
+                    <div className="space-y-1">
+                        <p className="font-medium">Top values</p>
+                        {profile.topValues.map((top) => (
+                            <div key={top.value} className="flex justify-between">
+                                <span className="truncate font-mono text-xs">{top.value}</span>
+                                <span className="text-muted-foreground">{top.count}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {profile.patterns.length > 0 && (
+                    <div className="space-y-1">
+                        <p className="font-medium">Patterns</p>
+                        {profile.patterns.map((cluster) => (
+                            <div key={cluster.pattern} className="flex justify-between">
+                                <span className="truncate font-mono text-xs" title={`e.g. ${cluster.example}`}>
+                                    {cluster.pattern}
+                                </span>
+                                <span className="text-muted-foreground">{formatPercent(cluster.count / profile.filled)}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
@@ -6,36 +6,85 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { AlertCircle, CheckCircle2, XCircle, AlertTriangle, HelpCircle, FileWarning } from "lucide-react"
-import type { ValidationError, ValidationResult } from "@/lib/types"
+import { useState } from "react"
+import {
+    AlertCircle,
+    CheckCircle2,
+    XCircle,
+    AlertTriangle,
+    HelpCircle,
+    FileWarning,
+    Download,
+    Info,
+    Wand2,
+} from "lucide-react"
+import type { HeaderRowSetting, ValidationError, ValidationResult, ValidationSeverity } from "@/lib/types"
 import { getSuggestionForError } from "@/lib/validation-utils"
+import { exportErrorReport } from "@/lib/error-report"
+import { getErrorSeverity } from "@/lib/enhanced-validation-utils"
+import { AUTO_FIX_LABELS, groupAutoFixes, type AutoFixGroup } from "@/lib/auto-fix"
 import { Badge } from "@/components/ui/badge"
+import { AutoFixPreviewDialog } from "./auto-fix-preview-dialog"
 
 interface EnhancedValidationResultsProps {
     validationResult: ValidationResult
     onContinue: () => void
     onCancel: () => void
+    // Validated rows, needed for the downloadable error report
+    data?: Record<string, unknown>[]
+    fileName?: string
+    headerRow?: HeaderRowSetting
+    // Applies previewed fixes to the validated data; fixes are not offered without it
+    onApplyFixes?: (group: AutoFixGroup) => void
 }
 
-export function EnhancedValidationResults({ validationResult, onContinue, onCancel }: EnhancedValidationResultsProps) {
-    const { valid, errors, errorsByType } = validationResult
+export function EnhancedValidationResults({
+    validationResult,
+    onContinue,
+    onCancel,
+    data,
+    fileName,
+    headerRow,
+    onApplyFixes,
+}: EnhancedValidationResultsProps) {
+    const { valid, errors, errorsBySeverity } = validationResult
     const hasErrors = errors.length > 0
+    // Only duplicates that are skipped on import are left when the result is valid
+    const hasDuplicates = errors.some((error) => error.duplicateOf)
+    const [reportError, setReportError] = useState<string | null>(null)
+    const [previewGroup, setPreviewGroup] = useState<AutoFixGroup | null>(null)
+    const fixGroups = onApplyFixes ? groupAutoFixes(errors) : []
 
-    // Count errors by type
-    const missingCount = errorsByType.missing.length
-    const formatCount = errorsByType.format.length
-    const invalidCount = errorsByType.invalid.length
-    const otherCount = errorsByType.other.length
+    const handleDownloadReport = () => {
+        if (!data) return
+        setReportError(null)
+
+        try {
+            exportErrorReport(data, errors, fileName || "validation", { headerRow })
+        } catch (err) {
+            setReportError(err instanceof Error ? err.message : "Failed to create the error report")
+        }
+    }
+
+    // Count issues by severity
+    const errorCount = errorsBySeverity.error.length
+    const warningCount = errorsBySeverity.warning.length
+    const infoCount = errorsBySeverity.info.length
 
     return (
         <Card className="w-full">
             <CardHeader>
                 <CardTitle className="flex items-center">
-                    {hasErrors ? (
+                    {!valid ? (
                         <>
                             <XCircle className="mr-2 h-5 w-5 text-destructive" />
                             Data Validation Failed
                         </>
+                    ) : hasErrors ? (
+                        <>
+                            <AlertTriangle className="mr-2 h-5 w-5 text-amber-500" />
+                            {hasDuplicates ? "Duplicate Rows Found" : "Data Validated with Warnings"}
+                        </>
                     ) : (
                         <>
                             <CheckCircle2 className="mr-2 h-5 w-5 text-green-500" />
@@ -44,36 +93,67 @@ export function EnhancedValidationResults({ validationResult, onContinue, onCanc
                     )}
                 </CardTitle>
                 <CardDescription>
-                    {hasErrors
-                        ? "The following issues were found in your data. Please correct them before proceeding."
-                        : "All required fields are present and valid."}
+                    {!valid
+                        ? "The following errors must be corrected before proceeding. Warnings and info do not block the import."
+                        : hasErrors
+                          ? hasDuplicates
+                            ? "The duplicate rows listed below will be skipped when you continue."
+                            : "The warnings and notes listed below do not block the import."
+                          : "All required fields are present and valid."}
                 </CardDescription>
             </CardHeader>
 
             {hasErrors && (
                 <CardContent>
-                    <Alert variant="destructive" className="mb-4">
+                    <Alert variant={valid ? "default" : "destructive"} className={valid ? "mb-4 bg-amber-50 border-amber-200" : "mb-4"}>
                         <FileWarning className="h-4 w-4" />
-                        <AlertTitle>Validation Error</AlertTitle>
+                        <AlertTitle>{valid ? (hasDuplicates ? "Duplicates" : "Warnings") : "Validation Error"}</AlertTitle>
                         <AlertDescription>
-                            {errors.length} {errors.length === 1 ? "issue" : "issues"} found in your data
+                            {errorCount} {errorCount === 1 ? "error" : "errors"}, {warningCount}{" "}
+                            {warningCount === 1 ? "warning" : "warnings"} and {infoCount} info found in your data
                         </AlertDescription>
                     </Alert>
 
+                    {reportError && (
+                        <Alert variant="destructive" className="mb-4">
+                            <AlertDescription>{reportError}</AlertDescription>
+                        </Alert>
+                    )}
+
+                    {fixGroups.length > 0 && (
+                        <div className="mb-4 rounded-md border p-4 space-y-2">
+                            <h4 className="flex items-center text-sm font-medium">
+                                <Wand2 className="mr-2 h-4 w-4" />
+                                Suggested Fixes
+                            </h4>
+                            {fixGroups.map((group) => (
+                                <div key={`${group.column}-${group.kind}`} className="flex items-center justify-between">
+                                    <div className="flex items-center space-x-2 text-sm">
+                                        <span>{AUTO_FIX_LABELS[group.kind]}</span>
+                                        <span className="text-muted-foreground">in {group.column}</span>
+                                        <Badge variant="secondary">
+                                            {group.changes.length} {group.changes.length === 1 ? "cell" : "cells"}
+                                        </Badge>
+                                    </div>
+                                    <Button variant="outline" size="sm" onClick={() => setPreviewGroup(group)}>
+                                        Apply all
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
                     <Tabs defaultValue="all" className="mt-4">
-                        <TabsList className="grid w-full grid-cols-5">
+                        <TabsList className="grid w-full grid-cols-4">
                             <TabsTrigger value="all">All ({errors.length})</TabsTrigger>
-                            <TabsTrigger value="missing" disabled={missingCount === 0}>
-                                Missing ({missingCount})
-                            </TabsTrigger>
-                            <TabsTrigger value="format" disabled={formatCount === 0}>
-                                Format ({formatCount})
+                            <TabsTrigger value="error" disabled={errorCount === 0}>
+                                Errors ({errorCount})
                             </TabsTrigger>
-                            <TabsTrigger value="invalid" disabled={invalidCount === 0}>
-                                Invalid ({invalidCount})
+                            <TabsTrigger value="warning" disabled={warningCount === 0}>
+                                Warnings ({warningCount})
                             </TabsTrigger>
-                            <TabsTrigger value="other" disabled={otherCount === 0}>
-                                Other ({otherCount})
+                            <TabsTrigger value="info" disabled={infoCount === 0}>
+                                Info ({infoCount})
                             </TabsTrigger>
                         </TabsList>
 
@@ -81,20 +161,16 @@ export function EnhancedValidationResults({ validationResult, onContinue, onCanc
                             <ErrorTable errors={errors} />
                         </TabsContent>
 
-                        <TabsContent value="missing">
-                            <ErrorTable errors={errorsByType.missing} />
-                        </TabsContent>
-
-                        <TabsContent value="format">
-                            <ErrorTable errors={errorsByType.format} />
+                        <TabsContent value="error">
+                            <ErrorTable errors={errorsBySeverity.error} />
                         </TabsContent>
 
-                        <TabsContent value="invalid">
-                            <ErrorTable errors={errorsByType.invalid} />
+                        <TabsContent value="warning">
+                            <ErrorTable errors={errorsBySeverity.warning} />
                         </TabsContent>
 
-                        <TabsContent value="other">
-                            <ErrorTable errors={errorsByType.other} />
+                        <TabsContent value="info">
+                            <ErrorTable errors={errorsBySeverity.info} />
                         </TabsContent>
                     </Tabs>
                 </CardContent>
@@ -104,10 +180,27 @@ export function EnhancedValidationResults({ validationResult, onContinue, onCanc
                 <Button variant="outline" onClick={onCancel}>
                     {hasErrors ? "Cancel" : "Back"}
                 </Button>
-                <Button onClick={onContinue} disabled={hasErrors} variant={hasErrors ? "outline" : "default"}>
-                    {hasErrors ? "Fix Data" : "Continue"}
-                </Button>
+                <div className="flex gap-2">
+                    {hasErrors && data && (
+                        <Button variant="outline" onClick={handleDownloadReport}>
+                            <Download className="mr-2 h-4 w-4" />
+                            Download Error Report
+                        </Button>
+                    )}
+                    <Button onClick={onContinue} disabled={!valid} variant={!valid ? "outline" : "default"}>
+                        {!valid ? "Fix Data" : "Continue"}
+                    </Button>
+                </div>
             </CardFooter>
+
+            <AutoFixPreviewDialog
+                group={previewGroup}
+                onConfirm={(group) => {
+                    setPreviewGroup(null)
+                    onApplyFixes?.(group)
+                }}
+                onCancel={() => setPreviewGroup(null)}
+            />
         </Card>
     )
 }
@@ -117,11 +210,16 @@ interface ErrorTableProps {
 }
 
 function ErrorTable({ errors }: ErrorTableProps) {
+    // Only show the sheet column when errors come from more than one sheet
+    const showSheet = new Set(errors.map((error) => error.sheet)).size > 1
+
     return (
         <ScrollArea className="h-[300px]">
             <Table>
                 <TableHeader>
                     <TableRow>
+                        <TableHead className="w-[100px]">Severity</TableHead>
+                        {showSheet && <TableHead className="w-[120px]">Sheet</TableHead>}
                         <TableHead className="w-[80px]">Row</TableHead>
                         <TableHead className="w-[150px]">Column</TableHead>
                         <TableHead className="w-[100px]">Type</TableHead>
@@ -132,6 +230,10 @@ function ErrorTable({ errors }: ErrorTableProps) {
                 <TableBody>
                     {errors.map((error, index) => (
                         <TableRow key={index}>
+                            <TableCell>
+                                <SeverityBadge severity={getErrorSeverity(error)} />
+                            </TableCell>
+                            {showSheet && <TableCell>{error.sheet}</TableCell>}
                             <TableCell>{error.row}</TableCell>
                             <TableCell>{error.column}</TableCell>
                             <TableCell>
@@ -157,7 +259,12 @@ function ErrorTable({ errors }: ErrorTableProps) {
                                 )}
                             </TableCell>
                             <TableCell>{error.message}</TableCell>
-                            <TableCell className="text-muted-foreground">{getSuggestionForError(error)}</TableCell>
+                            <TableCell className="text-muted-foreground">
+                                {getSuggestionForError(error)}
+                                {error.fix && (
+                                    <span className="block text-xs text-green-700">Fix: {String(error.fix.value)}</span>
+                                )}
+                            </TableCell>
                         </TableRow>
                     ))}
                 </TableBody>
@@ -166,3 +273,26 @@ function ErrorTable({ errors }: ErrorTableProps) {
     )
 }
 
+
+function SeverityBadge({ severity }: { severity: ValidationSeverity }) {
+    switch (severity) {
+        case "error":
+            return (
+                <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200 flex items-center">
+                    <XCircle className="h-3 w-3 mr-1" /> Error
+                </Badge>
+            )
+        case "warning":
+            return (
+                <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200 flex items-center">
+                    <AlertTriangle className="h-3 w-3 mr-1" /> Warning
+                </Badge>
+            )
+        case "info":
+            return (
+                <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200 flex items-center">
+                    <Info className="h-3 w-3 mr-1" /> Info
+                </Badge>
+            )
+    }
+}
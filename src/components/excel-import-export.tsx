@@ -5,28 +5,56 @@ import { FileUploader } from "./file-uploader"
 import { FilePreview } from "./file-preview"
 import { DataTable } from "./data-table"
 import { Button } from "@/components/ui/button"
-import { Download, Settings, UploadCloud, FileWarning, FileCheck, AlertTriangle, Send } from "lucide-react"
-import { exportToExcel } from "@/lib/excel-utils"
+import { Download, Settings, UploadCloud, FileWarning, FileCheck, AlertTriangle, Send, FileDown } from "lucide-react"
+import { copyRowMetadata, formatCellValue, getCellFormat } from "@/lib/excel-utils"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-import { Progress } from "@/components/ui/progress"
 import { AdvancedConfigPanel } from "./advanced-config-panel"
 import { EnhancedValidationResults } from "./enhanced-validation-results"
 import { HeaderValidator } from "./header-validator"
 import { SchemaValidationResults } from "./schema-validation-results"
-import { validateData, validateHeaders, handleInvalidData, formatValue } from "@/lib/enhanced-validation-utils"
-import { validateSchema, removeColumns } from "@/lib/schema-validation"
+import {
+  validateHeaders,
+  handleInvalidData,
+  removeDuplicateRows,
+  transformValue,
+  getRawValueColumn,
+  getExportColumns,
+  getErrorSeverity,
+  combineDateTimeColumns,
+} from "@/lib/enhanced-validation-utils"
+import { getOutputColumns } from "@/lib/date-utils"
+import { removeColumns, resolveHeaderIssues } from "@/lib/schema-validation"
+import { downloadImportTemplate } from "@/lib/template-utils"
+import { withLookupValues } from "@/lib/lookup-utils"
+import { cancelRemoteValidation, withRemoteValidation } from "@/lib/remote-validation"
+import { applyAutoFixes, type AutoFixGroup } from "@/lib/auto-fix"
+import { refreshLookupTables } from "./lookup-tables-store"
+import {
+  validateSchemaInWorker,
+  validateDataInWorker,
+  profileDataInWorker,
+  cancelImportTasks,
+  ImportCancelledError,
+  type ImportProgress,
+} from "@/lib/import-worker-client"
 import type {
   ValidationError,
   ValidationResult,
   HeaderValidationResult,
+  HeaderIssue,
+  HeaderResolution,
   ImporterConfig,
   ColumnConfig,
   SchemaValidationResult,
+  ColumnProfile,
 } from "@/lib/types"
 import { defaultImporterConfig, createDefaultColumnConfig } from "@/lib/default-config"
 import { ApiSubmissionDialog } from "./api-submission-dialog"
 import { FailedSubmissionsIndicator } from "./failed-submissions-indicator"
+import { ImportProgressIndicator } from "./import-progress"
+import { ExportDialog } from "./export-dialog"
+import { DataProfile } from "./data-profile"
 
 interface ExcelImportExportProps {
   requiredColumns?: string[]
@@ -34,22 +62,27 @@ interface ExcelImportExportProps {
   acceptedFormats?: string[]
   strictSchema?: boolean
   apiEndpoint?: string
+  // Worksheet name used when exporting to Excel
+  exportSheetName?: string
 }
 
 export function ExcelImportExport({
   requiredColumns = [],
   optionalColumns = [],
-  acceptedFormats = [".xlsx", ".xls", ".csv"],
+  acceptedFormats = [".xlsx", ".xls", ".csv", ".json", ".ndjson"],
   strictSchema = false,
   apiEndpoint = "",
+  exportSheetName = "Sheet1",
 }: ExcelImportExportProps) {
   const [data, setData] = useState<any[]>([])
   const [columns, setColumns] = useState<any[]>([])
+  // Columns of the imported data, which differ from the file's when date and time columns are combined
+  const [dataColumns, setDataColumns] = useState<any[]>([])
   const [previewData, setPreviewData] = useState<any[]>([])
   const [fileName, setFileName] = useState<string>("")
   const [activeTab, setActiveTab] = useState<string>("upload")
   const [isLoading, setIsLoading] = useState<boolean>(false)
-  const [progress, setProgress] = useState<number>(0)
+  const [progress, setProgress] = useState<ImportProgress | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [showAdvancedConfig, setShowAdvancedConfig] = useState<boolean>(false)
   const [originalFile, setOriginalFile] = useState<File | null>(null)
@@ -85,14 +118,32 @@ export function ExcelImportExport({
   const [showHeaderValidation, setShowHeaderValidation] = useState<boolean>(false)
   const [showSchemaValidation, setShowSchemaValidation] = useState<boolean>(false)
   const [fileHeaders, setFileHeaders] = useState<string[]>([])
+  const [headerIssues, setHeaderIssues] = useState<HeaderIssue[]>([])
   const [processedData, setProcessedData] = useState<any[]>([])
   const [originalData, setOriginalData] = useState<any[]>([])
+  const [profiles, setProfiles] = useState<ColumnProfile[] | null>(null)
   const [showApiDialog, setShowApiDialog] = useState<boolean>(false)
+  const [showExportDialog, setShowExportDialog] = useState<boolean>(false)
 
-  const handleFileData = (fileData: any[], name: string, file?: File) => {
+  // Table columns for the given headers, labelled from the configuration
+  const toTableColumns = (headers: string[]) =>
+    headers.map((key) => {
+      // Check if this column is in our configuration
+      const configColumn = getOutputColumns(importerConfig).find((col) => col.name === key)
+
+      return {
+        accessorKey: key,
+        header: configColumn?.displayName || key,
+        cell: (info: any) => formatCellValue(info.getValue(), getCellFormat(info.row.original, key)) || "-",
+        required: configColumn?.required || false,
+      }
+    })
+
+  const handleFileData = async (fileData: any[], name: string, file?: File, issues: HeaderIssue[] = []) => {
     setError(null)
     setValidationErrors([])
     setFileName(name)
+    setHeaderIssues(issues)
 
     // Store the original file for potential file upload
     if (file) {
@@ -104,8 +155,9 @@ export function ExcelImportExport({
       return
     }
 
-    // Save original data
+    // Save original data; it is profiled again when the Profile tab is opened
     setOriginalData(fileData)
+    setProfiles(null)
 
     // Extract headers from the first row
     if (fileData.length > 0) {
@@ -114,7 +166,8 @@ export function ExcelImportExport({
       setFileHeaders(headers)
 
       // Perform schema validation
-      const schemaResult = validateSchema(fileData, importerConfig)
+      const schemaResult = await runInWorker(() => validateSchemaInWorker(fileData, importerConfig, setProgress))
+      if (!schemaResult) return
       setSchemaValidationResult(schemaResult)
 
       // If schema validation fails and we're in strict mode, show schema validation
@@ -129,18 +182,7 @@ export function ExcelImportExport({
 
       // Generate columns from the headers that are in the validated data
       const validatedHeaders = Object.keys(validatedData[0])
-      const cols = validatedHeaders.map((key) => {
-        // Check if this column is in our configuration
-        const configColumn = importerConfig.columns.find((col) => col.name === key)
-
-        return {
-          accessorKey: key,
-          header: configColumn?.displayName || key,
-          cell: (info: any) => info.getValue() || "-",
-          required: configColumn?.required || false,
-        }
-      })
-      setColumns(cols)
+      setColumns(toTableColumns(validatedHeaders))
 
       // If we have pre-configured columns, we need to check if they exist in the file
       // and add any new columns from the file that are not extra columns
@@ -160,15 +202,19 @@ export function ExcelImportExport({
         })
 
         // Validate headers against the updated config
-        const headerResult = validateHeaders(validatedHeaders, {
-          ...importerConfig,
-          columns: updatedColumns,
-        })
+        const headerResult = validateHeaders(
+          validatedHeaders,
+          {
+            ...importerConfig,
+            columns: updatedColumns,
+          },
+          issues,
+        )
         setHeaderValidationResult(headerResult)
         setShowHeaderValidation(true)
       } else {
         // Just validate headers against existing config
-        const headerResult = validateHeaders(validatedHeaders, importerConfig)
+        const headerResult = validateHeaders(validatedHeaders, importerConfig, issues)
         setHeaderValidationResult(headerResult)
         setShowHeaderValidation(true)
       }
@@ -180,11 +226,18 @@ export function ExcelImportExport({
 
   const handleHeaderValidationContinue = () => {
     setShowHeaderValidation(false)
+    setActiveTab("preview")
 
     // Validate data with column configuration
     validateDataWithConfig(processedData)
+  }
 
-    setActiveTab("preview")
+  const handleResolveHeaders = (resolutions: HeaderResolution[]) => {
+    setShowHeaderValidation(false)
+
+    // Re-run the import on the fixed data; every issue has now been decided
+    const resolvedData = resolveHeaderIssues(originalData, headerIssues, resolutions)
+    handleFileData(resolvedData, fileName)
   }
 
   const handleSchemaValidationContinue = (validData: any[]) => {
@@ -195,21 +248,10 @@ export function ExcelImportExport({
     const validatedHeaders = Object.keys(validData[0])
 
     // Generate columns from the headers
-    const cols = validatedHeaders.map((key) => {
-      // Check if this column is in our configuration
-      const configColumn = importerConfig.columns.find((col) => col.name === key)
-
-      return {
-        accessorKey: key,
-        header: configColumn?.displayName || key,
-        cell: (info: any) => info.getValue() || "-",
-        required: configColumn?.required || false,
-      }
-    })
-    setColumns(cols)
+    setColumns(toTableColumns(validatedHeaders))
 
     // Validate headers against existing config
-    const headerResult = validateHeaders(validatedHeaders, importerConfig)
+    const headerResult = validateHeaders(validatedHeaders, importerConfig, headerIssues)
     setHeaderValidationResult(headerResult)
     setShowHeaderValidation(true)
 
@@ -217,19 +259,22 @@ export function ExcelImportExport({
     setPreviewData(validData.slice(0, 10))
   }
 
-  const handleRemoveColumns = (columnsToRemove: string[]) => {
+  const handleRemoveColumns = async (columnsToRemove: string[]) => {
     // Remove the selected columns from the data
     const updatedData = removeColumns(originalData, columnsToRemove)
 
     // Update the schema validation result
-    const updatedSchemaResult = validateSchema(updatedData, importerConfig)
+    const updatedSchemaResult = await runInWorker(() =>
+      validateSchemaInWorker(updatedData, importerConfig, setProgress),
+    )
+    if (!updatedSchemaResult) return
     setSchemaValidationResult(updatedSchemaResult)
 
     // Continue with the updated data
     handleSchemaValidationContinue(updatedData)
   }
 
-  const handleConfigSave = (config: ImporterConfig) => {
+  const handleConfigSave = async (config: ImporterConfig) => {
     setImporterConfig(config)
 
     // Update columns with required status
@@ -241,9 +286,16 @@ export function ExcelImportExport({
 
     setShowAdvancedConfig(false)
 
+    // Types are inferred with the type settings, so the profile is out of date
+    setProfiles(null)
+    if (activeTab === "profile" && originalData.length > 0) {
+      await loadProfiles(config)
+    }
+
     // Re-validate schema with new configuration
     if (originalData.length > 0) {
-      const schemaResult = validateSchema(originalData, config)
+      const schemaResult = await runInWorker(() => validateSchemaInWorker(originalData, config, setProgress))
+      if (!schemaResult) return
       setSchemaValidationResult(schemaResult)
 
       // If schema validation fails and we're in strict mode, show schema validation
@@ -257,12 +309,44 @@ export function ExcelImportExport({
       setProcessedData(validatedData)
 
       // Validate data with new configuration
-      validateDataWithConfig(validatedData)
+      validateDataWithConfig(validatedData, config)
     }
   }
 
-  const validateDataWithConfig = (dataToValidate: any[]) => {
-    const result = validateData(dataToValidate, importerConfig)
+  // Runs a worker task with the progress indicator shown. Resolves to null when cancelled.
+  const runInWorker = async <T,>(task: () => Promise<T>): Promise<T | null> => {
+    setIsLoading(true)
+    setProgress(null)
+
+    try {
+      return await task()
+    } catch (err) {
+      if (!(err instanceof ImportCancelledError)) {
+        setError(err instanceof Error ? err.message : "Failed to process the file")
+        console.error(err)
+      }
+      return null
+    } finally {
+      setIsLoading(false)
+      setProgress(null)
+    }
+  }
+
+  const cancelTasks = () => {
+    cancelImportTasks()
+    cancelRemoteValidation()
+  }
+
+  const validateDataWithConfig = async (dataToValidate: any[], config: ImporterConfig = importerConfig) => {
+    // Lookup tables are validated against their cached values; missing or outdated ones are fetched first.
+    // Remote rules need the network and run after the local checks.
+    const result = await runInWorker(async () => {
+      const lookupTables = await refreshLookupTables(config)
+      const localResult = await validateDataInWorker(dataToValidate, withLookupValues(config, lookupTables), setProgress)
+      return withRemoteValidation(localResult, dataToValidate, config, setProgress)
+    })
+    if (!result) return null
+
     setValidationResult(result)
     setValidationErrors(result.errors)
 
@@ -270,22 +354,49 @@ export function ExcelImportExport({
       setShowValidationResults(true)
     }
 
-    return result.valid
+    return result
+  }
+
+  // Profiles all rows of the file, not just the preview
+  const loadProfiles = async (config: ImporterConfig) => {
+    const result = await runInWorker(() => profileDataInWorker(originalData, config.dataTypeConfig, setProgress))
+    if (result) setProfiles(result)
+  }
+
+  const handleTabChange = async (tab: string) => {
+    setActiveTab(tab)
+
+    // The profile is computed the first time the tab is opened
+    if (tab === "profile" && !profiles && originalData.length > 0) {
+      await loadProfiles(importerConfig)
+    }
+  }
+
+  const handleApplyFixes = (group: AutoFixGroup) => {
+    // Fixes were checked against the validated data; validate again to refresh the remaining errors
+    const fixedData = applyAutoFixes(processedData, group.changes)
+    setProcessedData(fixedData)
+    setPreviewData(fixedData.slice(0, 10))
+    validateDataWithConfig(fixedData)
   }
 
-  const handleImport = () => {
+  const handleImport = async () => {
     // Validate all data before importing
-    const isValid = validateDataWithConfig(processedData)
+    const result = await validateDataWithConfig(processedData)
 
-    if (!isValid) {
+    // Errors block the import and skipped duplicates are shown in the validation results first.
+    // Warnings and info do not stop it; they stay available from the preview.
+    if (!result || !result.valid || result.errors.some((error) => error.duplicateOf)) {
       return
     }
 
-    setIsLoading(true)
-    setProgress(0)
+    setShowValidationResults(false)
+    importValidatedData(result)
+  }
 
-    // Process data according to column configuration
-    const processedImportData = processedData.map((row) => {
+  const importValidatedData = (result: ValidationResult) => {
+    // Process data according to column configuration, without the duplicates that are skipped
+    const processedImportData = removeDuplicateRows(processedData, importerConfig).map((row) => {
       const processedRow: Record<string, any> = {}
 
       importerConfig.columns.forEach((column) => {
@@ -295,35 +406,43 @@ export function ExcelImportExport({
         if (value === undefined) return
 
         // Handle invalid data according to column configuration
-        const isValid = !validationErrors.some(
-          (error) => error.column === column.name && String(error.value) === String(value),
+        const isValid = !result.errors.some(
+          (error) =>
+            getErrorSeverity(error) === "error" &&
+            error.column === column.name &&
+            String(error.value) === String(value),
         )
 
         if (isValid) {
-          // Format valid data
-          processedRow[column.name] = value
+          // Typed output: real numbers and booleans, ISO dates and times and E.164 phone numbers
+          processedRow[column.name] = transformValue(value, column, importerConfig.dataTypeConfig)
         } else {
           // Handle invalid data
           processedRow[column.name] = handleInvalidData(value, column)
         }
+
+        if (column.keepRawValue) {
+          processedRow[getRawValueColumn(column)] = value
+        }
       })
 
+      copyRowMetadata(row, processedRow)
       return processedRow
     })
 
-    // Simulate processing time for large files
-    const timer = setInterval(() => {
-      setProgress((prev) => {
-        if (prev >= 100) {
-          clearInterval(timer)
-          setIsLoading(false)
-          setData(processedImportData)
-          setActiveTab("data")
-          return 100
-        }
-        return prev + 10
-      })
-    }, 200)
+    // Merge date and time columns into timestamps where configured
+    const outputData = combineDateTimeColumns(processedImportData, importerConfig)
+    setData(outputData)
+    setDataColumns(outputData.length > 0 ? toTableColumns(Object.keys(outputData[0])) : [])
+    setActiveTab("data")
+  }
+
+  const handleDownloadTemplate = () => {
+    try {
+      downloadImportTemplate(importerConfig)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create the import template")
+    }
   }
 
   const handleExport = () => {
@@ -332,24 +451,7 @@ export function ExcelImportExport({
       return
     }
 
-    // Format data for export according to column configuration
-    const formattedData = data.map((row) => {
-      const formattedRow: Record<string, any> = {}
-
-      importerConfig.columns.forEach((column) => {
-        const value = row[column.name]
-
-        // Skip columns that aren't in the data
-        if (value === undefined) return
-
-        // Format the value according to column configuration
-        formattedRow[column.displayName || column.name] = formatValue(value, column)
-      })
-
-      return formattedRow
-    })
-
-    exportToExcel(formattedData, fileName || "exported-data")
+    setShowExportDialog(true)
   }
 
   return (
@@ -374,6 +476,7 @@ export function ExcelImportExport({
         <HeaderValidator
           validationResult={headerValidationResult}
           onContinue={handleHeaderValidationContinue}
+          onResolveHeaders={handleResolveHeaders}
           onCancel={() => setShowHeaderValidation(false)}
         />
       ) : showAdvancedConfig ? (
@@ -385,21 +488,28 @@ export function ExcelImportExport({
       ) : showValidationResults && validationResult ? (
         <EnhancedValidationResults
           validationResult={validationResult}
+          data={processedData}
+          fileName={fileName.replace(/\.[^.]+$/, "")}
+          headerRow={importerConfig.headerRow}
+          onApplyFixes={handleApplyFixes}
           onContinue={() => {
             setShowValidationResults(false)
             if (validationResult.valid) {
-              handleImport()
+              importValidatedData(validationResult)
             }
           }}
           onCancel={() => setShowValidationResults(false)}
         />
       ) : (
-        <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-3">
+        <Tabs value={activeTab} onValueChange={handleTabChange}>
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="upload">Upload</TabsTrigger>
             <TabsTrigger value="preview" disabled={!previewData.length}>
               Preview
             </TabsTrigger>
+            <TabsTrigger value="profile" disabled={!originalData.length}>
+              Profile
+            </TabsTrigger>
             <TabsTrigger value="data" disabled={!data.length}>
               Data Table
             </TabsTrigger>
@@ -407,12 +517,28 @@ export function ExcelImportExport({
 
           <TabsContent value="upload" className="py-4">
             <div className="flex flex-col items-center justify-center space-y-4">
-              <FileUploader onFileData={handleFileData} acceptedFormats={importerConfig.acceptedFormats} />
-
-              <Button variant="outline" onClick={() => setShowAdvancedConfig(true)} className="mt-4">
-                <Settings className="mr-2 h-4 w-4" />
-                Configure Import Settings
-              </Button>
+              <FileUploader
+                onFileData={handleFileData}
+                acceptedFormats={importerConfig.acceptedFormats}
+                parseOptions={importerConfig}
+              />
+
+              {isLoading && <ImportProgressIndicator progress={progress} onCancel={cancelTasks} />}
+
+              <div className="flex gap-2 mt-4">
+                <Button variant="outline" onClick={() => setShowAdvancedConfig(true)}>
+                  <Settings className="mr-2 h-4 w-4" />
+                  Configure Import Settings
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={handleDownloadTemplate}
+                  disabled={importerConfig.columns.length === 0}
+                >
+                  <FileDown className="mr-2 h-4 w-4" />
+                  Download Template
+                </Button>
+              </div>
             </div>
           </TabsContent>
 
@@ -425,29 +551,14 @@ export function ExcelImportExport({
                     <Settings className="mr-2 h-4 w-4" />
                     Configure Fields
                   </Button>
-                  <Button
-                    onClick={() => {
-                      const isValid = validateDataWithConfig(processedData)
-                      if (isValid) {
-                        handleImport()
-                      } else {
-                        setShowValidationResults(true)
-                      }
-                    }}
-                    disabled={isLoading}
-                  >
+                  <Button onClick={handleImport} disabled={isLoading}>
                     <UploadCloud className="mr-2 h-4 w-4" />
                     {isLoading ? "Importing..." : "Validate & Import"}
                   </Button>
                 </div>
               </div>
 
-              {isLoading && (
-                <div className="space-y-2">
-                  <Progress value={progress} />
-                  <p className="text-sm text-muted-foreground text-center">Processing file... {progress}%</p>
-                </div>
-              )}
+              {isLoading && <ImportProgressIndicator progress={progress} onCancel={cancelTasks} />}
 
               {previewData.length > 0 && (
                 <FilePreview data={previewData} columns={columns} validationErrors={validationErrors} />
@@ -457,7 +568,22 @@ export function ExcelImportExport({
                 <Alert variant="success" className="bg-green-50 text-green-800 border-green-200">
                   <FileCheck className="h-4 w-4" />
                   <AlertTitle>Validation Passed</AlertTitle>
-                  <AlertDescription>All data meets the required format and validation rules</AlertDescription>
+                  <AlertDescription>
+                    {validationResult.errors.length === 0 ? (
+                      "All data meets the required format and validation rules"
+                    ) : (
+                      <>
+                        No blocking errors; {validationResult.errors.length} issue(s) were reported for review.{" "}
+                        <Button
+                          variant="link"
+                          className="p-0 h-auto text-green-800 underline"
+                          onClick={() => setShowValidationResults(true)}
+                        >
+                          View details
+                        </Button>
+                      </>
+                    )}
+                  </AlertDescription>
                 </Alert>
               )}
 
@@ -481,6 +607,29 @@ export function ExcelImportExport({
             </div>
           </TabsContent>
 
+          <TabsContent value="profile" className="py-4">
+            <div className="space-y-6">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold">Profile: {fileName}</h2>
+                <Button variant="outline" onClick={() => setShowAdvancedConfig(true)}>
+                  <Settings className="mr-2 h-4 w-4" />
+                  Configure Fields
+                </Button>
+              </div>
+
+              {isLoading && <ImportProgressIndicator progress={progress} onCancel={cancelTasks} />}
+
+              {profiles && (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    {originalData.length} rows and {profiles.length} columns, as read from the file
+                  </p>
+                  <DataProfile profiles={profiles} columns={importerConfig.columns} />
+                </>
+              )}
+            </div>
+          </TabsContent>
+
           <TabsContent value="data" className="py-4">
             <div className="space-y-6">
               <div className="flex items-center justify-between">
@@ -489,7 +638,7 @@ export function ExcelImportExport({
                   <FailedSubmissionsIndicator />
                   <Button onClick={handleExport}>
                     <Download className="mr-2 h-4 w-4" />
-                    Export to Excel
+                    Export
                   </Button>
                   <Button variant="outline" onClick={() => setShowApiDialog(true)} disabled={data.length === 0}>
                     <Send className="mr-2 h-4 w-4" />
@@ -498,7 +647,7 @@ export function ExcelImportExport({
                 </div>
               </div>
 
-              {data.length > 0 && <DataTable data={data} columns={columns} />}
+              {data.length > 0 && <DataTable data={data} columns={dataColumns} />}
             </div>
           </TabsContent>
         </Tabs>
@@ -512,6 +661,16 @@ export function ExcelImportExport({
           initialEndpoint={apiEndpoint}
         />
       )}
+      {showExportDialog && (
+        <ExportDialog
+          open={showExportDialog}
+          onOpenChange={setShowExportDialog}
+          data={data}
+          fileName={fileName.replace(/\.[^.]+$/, "") || "exported-data"}
+          columns={getExportColumns(importerConfig)}
+          defaultOptions={{ sheetName: exportSheetName }}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,185 @@
+"use client"
+
+import { useState } from "react"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Download } from "lucide-react"
+import { defaultExportOptions, exportData, getExporters, type ExportOptions } from "@/lib/export-utils"
+import type { ColumnConfig } from "@/lib/types"
+
+interface ExportDialogProps {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    data: Record<string, unknown>[]
+    fileName: string
+    columns?: ColumnConfig[]
+    defaultOptions?: Partial<ExportOptions>
+}
+
+export function ExportDialog({ open, onOpenChange, data, fileName, columns, defaultOptions }: ExportDialogProps) {
+    const exporters = getExporters()
+    const [format, setFormat] = useState(exporters[0]?.format || "xlsx")
+    const [exportFileName, setExportFileName] = useState(fileName)
+    const [options, setOptions] = useState<ExportOptions>({ ...defaultExportOptions, ...defaultOptions })
+    const [error, setError] = useState<string | null>(null)
+
+    const exporter = exporters.find((e) => e.format === format)
+    const showsOption = (option: keyof ExportOptions) => exporter?.options.includes(option) ?? false
+
+    const updateOption = <K extends keyof ExportOptions>(option: K, value: ExportOptions[K]) => {
+        setOptions({ ...options, [option]: value })
+    }
+
+    const handleExport = () => {
+        setError(null)
+
+        try {
+            exportData(format, data, exportFileName.trim() || "exported-data", options, columns)
+            onOpenChange(false)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Export failed")
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-md">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center">
+                        <Download className="mr-2 h-5 w-5" />
+                        Export Data
+                    </DialogTitle>
+                    <DialogDescription>
+                        Choose a file format for the {data.length} {data.length === 1 ? "row" : "rows"} being exported
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 py-2">
+                    <div className="space-y-2">
+                        <Label htmlFor="export-format">Format</Label>
+                        <Select value={format} onValueChange={setFormat}>
+                            <SelectTrigger id="export-format">
+                                <SelectValue placeholder="Select format" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {exporters.map((e) => (
+                                    <SelectItem key={e.format} value={e.format}>
+                                        {e.label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="export-file-name">File Name</Label>
+                        <div className="flex items-center gap-2">
+                            <Input
+                                id="export-file-name"
+                                value={exportFileName}
+                                onChange={(e) => setExportFileName(e.target.value)}
+                            />
+                            <span className="text-sm text-muted-foreground">.{exporter?.extension}</span>
+                        </div>
+                    </div>
+
+                    {showsOption("sheetName") && (
+                        <div className="space-y-2">
+                            <Label htmlFor="export-sheet-name">Sheet Name</Label>
+                            <Input
+                                id="export-sheet-name"
+                                value={options.sheetName}
+                                maxLength={31}
+                                onChange={(e) => updateOption("sheetName", e.target.value)}
+                            />
+                        </div>
+                    )}
+
+                    {showsOption("delimiter") && (
+                        <div className="space-y-2">
+                            <Label htmlFor="export-delimiter">Delimiter</Label>
+                            <Select value={options.delimiter} onValueChange={(value) => updateOption("delimiter", value)}>
+                                <SelectTrigger id="export-delimiter">
+                                    <SelectValue placeholder="Select delimiter" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value=",">Comma (,)</SelectItem>
+                                    <SelectItem value=";">Semicolon (;)</SelectItem>
+                                    <SelectItem value="|">Pipe (|)</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
+                    {showsOption("lineEnding") && (
+                        <div className="space-y-2">
+                            <Label htmlFor="export-line-ending">Line Endings</Label>
+                            <Select
+                                value={options.lineEnding}
+                                onValueChange={(value) => updateOption("lineEnding", value as ExportOptions["lineEnding"])}
+                            >
+                                <SelectTrigger id="export-line-ending">
+                                    <SelectValue placeholder="Select line endings" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={"\n"}>LF (Unix, macOS)</SelectItem>
+                                    <SelectItem value={"\r\n"}>CRLF (Windows)</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
+                    {showsOption("includeBom") && (
+                        <div className="flex items-center space-x-2">
+                            <Switch
+                                id="export-include-bom"
+                                checked={options.includeBom}
+                                onCheckedChange={(checked) => updateOption("includeBom", checked)}
+                            />
+                            <Label htmlFor="export-include-bom">Add UTF-8 byte order mark (helps Excel open the file)</Label>
+                        </div>
+                    )}
+
+                    {showsOption("prettyPrint") && (
+                        <div className="flex items-center space-x-2">
+                            <Switch
+                                id="export-pretty-print"
+                                checked={options.prettyPrint}
+                                onCheckedChange={(checked) => updateOption("prettyPrint", checked)}
+                            />
+                            <Label htmlFor="export-pretty-print">Pretty-print JSON</Label>
+                        </div>
+                    )}
+
+                    {error && (
+                        <Alert variant="destructive">
+                            <AlertDescription>{error}</AlertDescription>
+                        </Alert>
+                    )}
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>
+                        Cancel
+                    </Button>
+                    <Button onClick={handleExport} disabled={data.length === 0}>
+                        <Download className="mr-2 h-4 w-4" />
+                        Export
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -11,7 +11,8 @@ import {
   getCellHighlightClass,
   getRowHighlightClass,
   getCellErrorIcon,
-} from "@/lib/validation-utils"
+} from "@/lib/enhanced-validation-utils"
+import { formatCellValue, getCellFormat } from "@/lib/excel-utils"
 
 interface FilePreviewProps {
   data: any[]
@@ -43,12 +44,12 @@ export function FilePreview({ data, columns, validationErrors = [] }: FilePrevie
             </TableHeader>
             <TableBody>
               {data.map((row, rowIndex) => (
-                <TableRow key={rowIndex} className={getRowHighlightClass(rowIndex, validationErrors)}>
+                <TableRow key={rowIndex} className={getRowHighlightClass(rowIndex, validationErrors, row)}>
                   {columns.map((column, colIndex) => {
-                    const cellValue = row[column.accessorKey] || "-"
-                    const cellClass = getCellHighlightClass(rowIndex, column.accessorKey, validationErrors)
-                    const errorMessage = getCellErrorMessage(rowIndex, column.accessorKey, validationErrors)
-                    const errorType = getCellErrorIcon(rowIndex, column.accessorKey, validationErrors)
+                    const cellValue = formatCellValue(row[column.accessorKey], getCellFormat(row, column.accessorKey)) || "-"
+                    const cellClass = getCellHighlightClass(rowIndex, column.accessorKey, validationErrors, row)
+                    const errorMessage = getCellErrorMessage(rowIndex, column.accessorKey, validationErrors, row)
+                    const errorType = getCellErrorIcon(rowIndex, column.accessorKey, validationErrors, row)
 
                     return (
                       <TableCell key={colIndex} className={cellClass}>
@@ -6,21 +6,37 @@ import { useState, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { FileSpreadsheet, Upload, FileX } from "lucide-react"
-import { parseExcelFile } from "@/lib/excel-utils"
+import type { ParseOptions } from "@/lib/excel-utils"
+import {
+  readFileInWorker,
+  parseSheetsInWorker,
+  cancelImportTasks,
+  ImportCancelledError,
+  type ImportProgress,
+} from "@/lib/import-worker-client"
 import { cn } from "@/lib/utils"
 import { validateFileFormat } from "@/lib/enhanced-validation-utils"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { SheetPicker } from "./sheet-picker"
+import { ImportProgressIndicator } from "./import-progress"
+import type { HeaderIssue, SheetSummary } from "@/lib/types"
 
 interface FileUploaderProps {
-  onFileData: (data: any[], fileName: string, file?: File) => void
+  onFileData: (data: any[], fileName: string, file?: File, headerIssues?: HeaderIssue[]) => void
   acceptedFormats: string[]
+  parseOptions: ParseOptions
 }
 
-export function FileUploader({ onFileData, acceptedFormats }: FileUploaderProps) {
+export function FileUploader({ onFileData, acceptedFormats, parseOptions }: FileUploaderProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [isProcessing, setIsProcessing] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [formatError, setFormatError] = useState<boolean>(false)
+  const [progress, setProgress] = useState<ImportProgress | null>(null)
+  const [pendingWorkbook, setPendingWorkbook] = useState<{
+    file: File
+    sheets: SheetSummary[]
+  } | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
@@ -64,13 +80,32 @@ export function FileUploader({ onFileData, acceptedFormats }: FileUploaderProps)
 
     try {
       setIsProcessing(true)
-      const data = await parseExcelFile(file)
-      onFileData(data, file.name, file) // Pass the file object to the parent
+      setProgress(null)
+
+      // The workbook is read and kept in the import worker so the page stays responsive
+      const sheets = await readFileInWorker(file, parseOptions, setProgress)
+
+      // Let the user pick sheets when the workbook has more than one
+      if (sheets.length > 1) {
+        setPendingWorkbook({ file, sheets })
+        return
+      }
+
+      const data = await parseSheetsInWorker(
+        sheets.map((sheet) => sheet.name),
+        parseOptions,
+        setProgress,
+      )
+      // Pass the file object and any duplicate/blank headers to the parent
+      onFileData(data, file.name, file, sheets.flatMap((sheet) => sheet.headerIssues))
     } catch (err) {
-      setError("Failed to parse file. Please check the file format.")
-      console.error(err)
+      if (!(err instanceof ImportCancelledError)) {
+        setError("Failed to parse file. Please check the file format.")
+        console.error(err)
+      }
     } finally {
       setIsProcessing(false)
+      setProgress(null)
       // Reset file input
       if (fileInputRef.current) {
         fileInputRef.current.value = ""
@@ -78,6 +113,42 @@ export function FileUploader({ onFileData, acceptedFormats }: FileUploaderProps)
     }
   }
 
+  const handleSheetsSelected = async (sheetNames: string[]) => {
+    if (!pendingWorkbook) return
+
+    const { file, sheets } = pendingWorkbook
+    setPendingWorkbook(null)
+
+    try {
+      setIsProcessing(true)
+      setProgress(null)
+      const data = await parseSheetsInWorker(sheetNames, parseOptions, setProgress)
+      const headerIssues = sheets
+        .filter((sheet) => sheetNames.includes(sheet.name))
+        .flatMap((sheet) => sheet.headerIssues)
+      onFileData(data, file.name, file, headerIssues)
+    } catch (err) {
+      if (!(err instanceof ImportCancelledError)) {
+        setError("Failed to parse the selected sheets. Please check the file format.")
+        console.error(err)
+      }
+    } finally {
+      setIsProcessing(false)
+      setProgress(null)
+    }
+  }
+
+  if (pendingWorkbook) {
+    return (
+      <SheetPicker
+        fileName={pendingWorkbook.file.name}
+        sheets={pendingWorkbook.sheets}
+        onConfirm={handleSheetsSelected}
+        onCancel={() => setPendingWorkbook(null)}
+      />
+    )
+  }
+
   return (
     <Card className="w-full">
       <CardContent className="p-6">
@@ -132,6 +203,12 @@ export function FileUploader({ onFileData, acceptedFormats }: FileUploaderProps)
           </div>
         </div>
 
+        {isProcessing && (
+          <div className="mt-4">
+            <ImportProgressIndicator progress={progress} onCancel={cancelImportTasks} />
+          </div>
+        )}
+
         {error && !formatError && <p className="mt-4 text-sm text-destructive text-center">{error}</p>}
       </CardContent>
     </Card>
@@ -1,4 +1,5 @@
 "use client"
+import { useState } from "react"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Button } from "@/components/ui/button"
@@ -6,18 +7,61 @@ import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { CheckCircle2, AlertTriangle, XCircle, Info } from "lucide-react"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import type { HeaderValidationResult } from "@/lib/types"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { HeaderIssue, HeaderResolution, HeaderResolutionAction, HeaderValidationResult } from "@/lib/types"
 
 interface HeaderValidatorProps {
     validationResult: HeaderValidationResult
     onContinue: () => void
     onCancel: () => void
+    onResolveHeaders?: (resolutions: HeaderResolution[]) => void
 }
 
-export function HeaderValidator({ validationResult, onContinue, onCancel }: HeaderValidatorProps) {
-    const { valid, missingRequired, unrecognized, present } = validationResult
+const defaultResolution = (issue: HeaderIssue): HeaderResolution => ({ key: issue.key, action: "suffix" })
+
+export function HeaderValidator({ validationResult, onContinue, onCancel, onResolveHeaders }: HeaderValidatorProps) {
+    const { valid, missingRequired, unrecognized, present, headerIssues } = validationResult
     const hasMissingRequired = missingRequired.length > 0
     const hasUnrecognized = unrecognized.length > 0
+    const hasHeaderIssues = headerIssues.length > 0
+
+    const [resolutions, setResolutions] = useState<Record<string, HeaderResolution>>(() =>
+        Object.fromEntries(headerIssues.map((issue) => [issue.key, defaultResolution(issue)])),
+    )
+
+    const getResolution = (issue: HeaderIssue) => resolutions[issue.key] || defaultResolution(issue)
+
+    const updateResolution = (key: string, changes: Partial<HeaderResolution>) => {
+        setResolutions({
+            ...resolutions,
+            [key]: { ...resolutions[key], key, ...changes },
+        })
+    }
+
+    // Renamed columns need a name that no other column ends up with
+    const getRenameError = (issue: HeaderIssue): string | null => {
+        const resolution = getResolution(issue)
+        if (resolution.action !== "rename") return null
+
+        const newName = resolution.newName?.trim() || ""
+        if (!newName) return "Enter a column name"
+
+        const otherHeaders = [...present, ...unrecognized].filter((header) => header !== issue.key)
+        const otherRenames = headerIssues
+            .filter((other) => other.key !== issue.key && getResolution(other).action === "rename")
+            .map((other) => getResolution(other).newName?.trim())
+        if (otherHeaders.includes(newName) || otherRenames.includes(newName)) {
+            return "Another column already uses this name"
+        }
+        return null
+    }
+
+    const hasRenameErrors = headerIssues.some((issue) => getRenameError(issue) !== null)
+
+    const handleApplyResolutions = () => {
+        onResolveHeaders?.(headerIssues.map((issue) => getResolution(issue)))
+    }
 
     return (
         <Card className="w-full">
@@ -74,6 +118,103 @@ export function HeaderValidator({ validationResult, onContinue, onCancel }: Head
                     </Alert>
                 )}
 
+                {hasHeaderIssues && (
+                    <Alert className="bg-amber-50 border-amber-200">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertTitle className="text-amber-800">Duplicate or Blank Headers</AlertTitle>
+                        <AlertDescription>
+                            <p>
+                                Some columns share a header name or have no header. Choose how each one should be imported so
+                                no data is lost.
+                            </p>
+                            <div className="mt-3 rounded-md border bg-background">
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead className="w-[80px]">Column</TableHead>
+                                            <TableHead className="w-[160px]">Problem</TableHead>
+                                            <TableHead className="w-[200px]">Action</TableHead>
+                                            <TableHead>Result</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {headerIssues.map((issue) => {
+                                            const resolution = getResolution(issue)
+                                            const renameError = getRenameError(issue)
+
+                                            return (
+                                                <TableRow key={issue.key}>
+                                                    <TableCell className="font-medium">{issue.column}</TableCell>
+                                                    <TableCell>
+                                                        {issue.type === "duplicate" ? (
+                                                            <span>
+                                                                Duplicate of <span className="font-medium">{issue.header}</span>
+                                                            </span>
+                                                        ) : (
+                                                            "Blank header"
+                                                        )}
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        <Select
+                                                            value={resolution.action}
+                                                            onValueChange={(value) =>
+                                                                updateResolution(issue.key, { action: value as HeaderResolutionAction })
+                                                            }
+                                                        >
+                                                            <SelectTrigger>
+                                                                <SelectValue />
+                                                            </SelectTrigger>
+                                                            <SelectContent>
+                                                                <SelectItem value="suffix">
+                                                                    {issue.type === "duplicate" ? "Keep with suffix" : "Keep column letter"}
+                                                                </SelectItem>
+                                                                <SelectItem value="rename">Rename</SelectItem>
+                                                                {issue.type === "duplicate" && (
+                                                                    <SelectItem value="merge">Merge into first</SelectItem>
+                                                                )}
+                                                                <SelectItem value="drop">Drop column</SelectItem>
+                                                            </SelectContent>
+                                                        </Select>
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        {resolution.action === "rename" ? (
+                                                            <div className="space-y-1">
+                                                                <Input
+                                                                    value={resolution.newName || ""}
+                                                                    placeholder="New column name"
+                                                                    onChange={(e) => updateResolution(issue.key, { newName: e.target.value })}
+                                                                />
+                                                                {renameError && <p className="text-xs text-red-500">{renameError}</p>}
+                                                            </div>
+                                                        ) : resolution.action === "merge" ? (
+                                                            <span className="text-muted-foreground">
+                                                                Values added to <span className="font-medium">{issue.duplicateOf}</span>
+                                                            </span>
+                                                        ) : resolution.action === "drop" ? (
+                                                            <span className="text-muted-foreground">Column is not imported</span>
+                                                        ) : (
+                                                            <span className="text-muted-foreground">
+                                                                Imported as <span className="font-medium">{issue.key}</span>
+                                                            </span>
+                                                        )}
+                                                    </TableCell>
+                                                </TableRow>
+                                            )
+                                        })}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                            {onResolveHeaders && (
+                                <div className="mt-3 flex justify-end">
+                                    <Button size="sm" onClick={handleApplyResolutions} disabled={hasRenameErrors}>
+                                        Apply Header Changes
+                                    </Button>
+                                </div>
+                            )}
+                        </AlertDescription>
+                    </Alert>
+                )}
+
                 <div className="rounded-md border">
                     <ScrollArea className="h-[300px]">
                         <Table>
@@ -0,0 +1,46 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { X } from "lucide-react"
+import type { ImportProgress } from "@/lib/import-worker-client"
+
+interface ImportProgressIndicatorProps {
+    progress: ImportProgress | null
+    onCancel: () => void
+}
+
+const stageLabels: Record<ImportProgress["stage"], string> = {
+    reading: "Reading file",
+    parsing: "Parsing rows",
+    schema: "Checking columns",
+    validating: "Validating rows",
+    remote: "Checking values with validation services",
+    profiling: "Profiling columns",
+}
+
+export function ImportProgressIndicator({ progress, onCancel }: ImportProgressIndicatorProps) {
+    const percent = progress && progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0
+
+    return (
+        <div className="space-y-2 w-full">
+            <Progress value={percent} />
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>
+                    {progress ? stageLabels[progress.stage] : "Starting"}
+                    {progress && progress.stage !== "reading" && progress.total > 0 && (
+                        <>
+                            {" "}
+                            {progress.processed.toLocaleString()} of {progress.total.toLocaleString()}
+                        </>
+                    )}
+                    ... {percent}%
+                </span>
+                <Button variant="ghost" size="sm" onClick={onCancel}>
+                    <X className="mr-1 h-4 w-4" />
+                    Cancel
+                </Button>
+            </div>
+        </div>
+    )
+}
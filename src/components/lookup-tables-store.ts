@@ -0,0 +1,59 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import type { CachedLookupTable, ImporterConfig, LookupTable } from "@/lib/types"
+import { createCachedLookupTable, fetchLookupValues, needsLookupReload } from "@/lib/lookup-utils"
+
+interface LookupTablesStore {
+    // Loaded values by lookup table name
+    tables: Record<string, CachedLookupTable>
+    saveLookupTable: (table: LookupTable, values: string[], origin: string) => CachedLookupTable
+    removeLookupTable: (name: string) => void
+}
+
+export const useLookupTablesStore = create<LookupTablesStore>()(
+    persist(
+        (set, get) => ({
+            tables: {},
+
+            saveLookupTable: (table, values, origin) => {
+                const cached = createCachedLookupTable(table, values, origin, get().tables[table.name])
+                set((state) => ({ tables: { ...state.tables, [table.name]: cached } }))
+                return cached
+            },
+
+            removeLookupTable: (name) => {
+                set((state) => {
+                    const tables = { ...state.tables }
+                    delete tables[name]
+                    return { tables }
+                })
+            },
+        }),
+        {
+            name: "lookup-tables-storage",
+        },
+    ),
+)
+
+/**
+ * Fetch the lookup tables of a configuration that load from public/ or an
+ * endpoint and are not cached, were cached for another location or source, or
+ * are older than the cache TTL. Tables that fail to load are logged; expired
+ * values are still used, otherwise their rules report them as not loaded.
+ */
+export async function refreshLookupTables(config: ImporterConfig): Promise<Record<string, CachedLookupTable>> {
+    const { tables, saveLookupTable } = useLookupTablesStore.getState()
+    const stale = (config.lookupTables || []).filter((table) => needsLookupReload(table, tables[table.name]))
+
+    await Promise.all(
+        stale.map(async (table) => {
+            try {
+                saveLookupTable(table, await fetchLookupValues(table), table.location || "")
+            } catch (error) {
+                console.error(`Error loading lookup table ${table.name}:`, error)
+            }
+        }),
+    )
+
+    return useLookupTablesStore.getState().tables
+}
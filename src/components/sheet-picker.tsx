@@ -0,0 +1,136 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Layers } from "lucide-react"
+import type { SheetSummary } from "@/lib/types"
+
+// Number of header names shown per sheet before collapsing into "+N more"
+const HEADER_PREVIEW_LIMIT = 6
+
+interface SheetPickerProps {
+    fileName: string
+    sheets: SheetSummary[]
+    onConfirm: (sheetNames: string[]) => void
+    onCancel: () => void
+}
+
+export function SheetPicker({ fileName, sheets, onConfirm, onCancel }: SheetPickerProps) {
+    // Preselect the first sheet that has data, matching the old single-sheet behaviour
+    const [selectedSheets, setSelectedSheets] = useState<string[]>(() => {
+        const firstWithData = sheets.find((sheet) => sheet.rowCount > 0)
+        return firstWithData ? [firstWithData.name] : []
+    })
+
+    const allSelected = selectedSheets.length === sheets.length
+    const selectedRowCount = sheets
+        .filter((sheet) => selectedSheets.includes(sheet.name))
+        .reduce((total, sheet) => total + sheet.rowCount, 0)
+
+    const handleSheetToggle = (name: string, checked: boolean) => {
+        if (checked) {
+            // Keep workbook order regardless of click order
+            setSelectedSheets(sheets.map((sheet) => sheet.name).filter((n) => n === name || selectedSheets.includes(n)))
+        } else {
+            setSelectedSheets(selectedSheets.filter((n) => n !== name))
+        }
+    }
+
+    const handleSelectAll = (checked: boolean) => {
+        setSelectedSheets(checked ? sheets.map((sheet) => sheet.name) : [])
+    }
+
+    return (
+        <Card className="w-full">
+            <CardHeader>
+                <CardTitle className="flex items-center">
+                    <Layers className="mr-2 h-5 w-5" />
+                    Select Sheets
+                </CardTitle>
+                <CardDescription>
+                    {fileName} contains {sheets.length} sheets. Choose which ones to import.
+                </CardDescription>
+            </CardHeader>
+
+            <CardContent>
+                <div className="rounded-md border">
+                    <ScrollArea className="h-[300px]">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="w-[50px]">
+                                        <Checkbox
+                                            checked={allSelected}
+                                            onCheckedChange={(checked) => handleSelectAll(checked as boolean)}
+                                            aria-label="Select all sheets"
+                                        />
+                                    </TableHead>
+                                    <TableHead className="w-[200px]">Sheet</TableHead>
+                                    <TableHead className="w-[100px]">Rows</TableHead>
+                                    <TableHead>Headers</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {sheets.map((sheet) => (
+                                    <TableRow key={sheet.name}>
+                                        <TableCell>
+                                            <Checkbox
+                                                id={`sheet-${sheet.name}`}
+                                                checked={selectedSheets.includes(sheet.name)}
+                                                onCheckedChange={(checked) => handleSheetToggle(sheet.name, checked as boolean)}
+                                            />
+                                        </TableCell>
+                                        <TableCell className="font-medium">
+                                            <label htmlFor={`sheet-${sheet.name}`} className="cursor-pointer">
+                                                {sheet.name}
+                                            </label>
+                                        </TableCell>
+                                        <TableCell>{sheet.rowCount}</TableCell>
+                                        <TableCell>
+                                            {sheet.headers.length === 0 ? (
+                                                <span className="text-muted-foreground">Empty sheet</span>
+                                            ) : (
+                                                <div className="flex flex-wrap items-center gap-1">
+                                                    {sheet.headerRow && sheet.headerRow > 1 && (
+                                                        <span className="text-xs text-muted-foreground mr-1">
+                                                            Row {sheet.headerRow}:
+                                                        </span>
+                                                    )}
+                                                    {sheet.headers.slice(0, HEADER_PREVIEW_LIMIT).map((header, index) => (
+                                                        <Badge key={index} variant="outline">
+                                                            {header}
+                                                        </Badge>
+                                                    ))}
+                                                    {sheet.headers.length > HEADER_PREVIEW_LIMIT && (
+                                                        <Badge variant="secondary">
+                                                            +{sheet.headers.length - HEADER_PREVIEW_LIMIT} more
+                                                        </Badge>
+                                                    )}
+                                                </div>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </ScrollArea>
+                </div>
+            </CardContent>
+
+            <CardFooter className="flex justify-between">
+                <Button variant="outline" onClick={onCancel}>
+                    Cancel
+                </Button>
+                <Button onClick={() => onConfirm(selectedSheets)} disabled={selectedSheets.length === 0}>
+                    Import {selectedSheets.length} {selectedSheets.length === 1 ? "sheet" : "sheets"} ({selectedRowCount}{" "}
+                    rows)
+                </Button>
+            </CardFooter>
+        </Card>
+    )
+}
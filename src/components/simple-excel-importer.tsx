@@ -9,6 +9,7 @@ interface SimpleExcelImporterProps {
     strictSchema?: boolean
     title?: string
     apiEndpoint?: string
+    exportSheetName?: string
 }
 
 export function SimpleExcelImporter({
@@ -18,6 +19,7 @@ export function SimpleExcelImporter({
     strictSchema = false,
     title = "Excel Import & Export System",
     apiEndpoint,
+    exportSheetName,
 }: SimpleExcelImporterProps) {
     return (
         <div className="space-y-4">
@@ -29,6 +31,7 @@ export function SimpleExcelImporter({
                 acceptedFormats={acceptedFormats}
                 strictSchema={strictSchema}
                 apiEndpoint={apiEndpoint}
+                exportSheetName={exportSheetName}
             />
         </div>
     )
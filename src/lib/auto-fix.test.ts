@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest"
+import type { ColumnConfig, ValidationError } from "./types"
+import { applyAutoFixes, getFixCandidates, groupAutoFixes } from "./auto-fix"
+import { defaultDataTypeConfig } from "./default-config"
+
+function column(type: ColumnConfig["type"]): ColumnConfig {
+    return { name: "value", type, required: false, validationRules: [], invalidHandling: "reject" }
+}
+
+const fixes = (value: unknown, type: ColumnConfig["type"], allowedValues?: string[]) =>
+    getFixCandidates(value, column(type), defaultDataTypeConfig, allowedValues).map((candidate) => [
+        candidate.kind,
+        candidate.value,
+    ])
+
+describe("getFixCandidates", () => {
+    it("trims whitespace and matches the case of allowed values", () => {
+        expect(fixes("  sedan ", "string", ["Sedan"])).toEqual([
+            ["trim", "sedan"],
+            ["match", "Sedan"],
+        ])
+    })
+
+    it("converts common yes and no words to booleans", () => {
+        expect(fixes("Yes", "boolean")).toEqual([["boolean", true]])
+        expect(fixes("off", "boolean")).toEqual([["boolean", false]])
+    })
+
+    it("rewrites unambiguous dates but not ambiguous ones", () => {
+        expect(fixes("2025.04.13", "date")).toEqual([["date", "2025-04-13"]])
+        expect(fixes("03/04/2025", "date")).toEqual([])
+    })
+
+    it("cleans up email addresses", () => {
+        expect(fixes("mailto:Anna@Example.com", "email")).toEqual([["lowercase", "anna@example.com"]])
+    })
+})
+
+describe("applyAutoFixes", () => {
+    it("changes the grouped cells and leaves cells edited since validation alone", () => {
+        const data = [{ type: " SUV" }, { type: "Van " }]
+        const errors: ValidationError[] = [
+            { row: 2, column: "type", value: " SUV", message: "", type: "invalid", fix: { kind: "trim", value: "SUV", rowIndex: 0 } },
+            { row: 3, column: "type", value: "Van  ", message: "", type: "invalid", fix: { kind: "trim", value: "Van", rowIndex: 1 } },
+        ]
+
+        const [group] = groupAutoFixes(errors)
+        expect(group.changes).toHaveLength(2)
+        expect(applyAutoFixes(data, group.changes)).toEqual([{ type: "SUV" }, { type: "Van " }])
+    })
+})
@@ -0,0 +1,236 @@
+import { format as formatDate } from "date-fns"
+import type { AutoFixKind, ColumnConfig, DataTypeConfig, ValidationError } from "./types"
+import { copyRowMetadata } from "./excel-utils"
+import { formatTimeValue, parseDateInput, parseDateTimeInput, parseTimeInput, toTimeValue } from "./date-utils"
+import { parsePhoneNumber } from "./phone-utils"
+
+/**
+ * Machine-applicable fixes for cells that fail validation. Candidates are
+ * generated here; validateData keeps the first one that passes every check of
+ * the cell and attaches it to the cell's errors.
+ */
+
+export interface AutoFixCandidate {
+    kind: AutoFixKind
+    value: unknown
+}
+
+// One cell a fix changes
+export interface AutoFixChange {
+    rowIndex: number
+    row: number
+    sheet?: string
+    column: string
+    before: unknown
+    after: unknown
+}
+
+// The fixes of one kind in one column, applied together
+export interface AutoFixGroup {
+    column: string
+    kind: AutoFixKind
+    changes: AutoFixChange[]
+}
+
+export const AUTO_FIX_LABELS: Record<AutoFixKind, string> = {
+    trim: "Trim whitespace",
+    match: "Match the case of allowed values",
+    lowercase: "Lowercase email addresses",
+    boolean: "Convert to true/false",
+    date: "Reformat dates and times",
+    phone: "Clean up phone numbers",
+}
+
+// Words commonly used for yes and no, beyond the configured boolean values
+const TRUE_WORDS = ["true", "t", "yes", "y", "1", "on", "x", "✓", "✔"]
+const FALSE_WORDS = ["false", "f", "no", "n", "0", "off"]
+
+// Day-first and month-first forms are both listed, so dates like 03/04/2025 stay ambiguous and get no fix
+const COMMON_DATE_FORMATS = [
+    "d/M/yyyy",
+    "M/d/yyyy",
+    "d.M.yyyy",
+    "d-M-yyyy",
+    "yyyy/M/d",
+    "yyyy.M.d",
+    "yyyyMMdd",
+    "d MMM yyyy",
+    "d MMMM yyyy",
+    "MMM d, yyyy",
+    "MMMM d, yyyy",
+]
+
+const COMMON_DATE_TIME_FORMATS = COMMON_DATE_FORMATS.flatMap((format) => [
+    `${format} H:mm`,
+    `${format} H:mm:ss`,
+    `${format} h:mm a`,
+])
+
+const COMMON_TIME_FORMATS = ["H:mm", "H.mm", "H.mm.ss", "HHmm", "h.mm a"]
+
+/**
+ * Format a date with each pattern that date-fns accepts
+ */
+function formatWithEach(date: Date, formats: string[]): string[] {
+    return formats.flatMap((format) => {
+        try {
+            return [formatDate(date, format)]
+        } catch {
+            return []
+        }
+    })
+}
+
+/**
+ * Rewrite a date, time or datetime text that only parses with a common format,
+ * first in the column's own input format, then in ISO form
+ */
+function getTemporalCandidates(text: string, type: string, typeConfig: DataTypeConfig): string[] {
+    switch (type) {
+        case "date": {
+            const { inputFormats = [] } = typeConfig.date
+            const parsed = parseDateInput(text, [...inputFormats, ...COMMON_DATE_FORMATS])
+            return parsed.status === "valid" ? formatWithEach(parsed.date, [...inputFormats.slice(0, 1), "yyyy-MM-dd"]) : []
+        }
+        case "datetime": {
+            const { inputFormats = [] } = typeConfig.datetime
+            const parsed = parseDateTimeInput(text, [...inputFormats, ...COMMON_DATE_TIME_FORMATS])
+            if (parsed.status !== "valid") return []
+            const isoFormat = parsed.date.getSeconds() === 0 ? "yyyy-MM-dd HH:mm" : "yyyy-MM-dd HH:mm:ss"
+            return formatWithEach(parsed.date, [...inputFormats.slice(0, 1), isoFormat])
+        }
+        case "time": {
+            const { inputFormats = [] } = typeConfig.time
+            const parsed = parseTimeInput(text, [...inputFormats, ...COMMON_TIME_FORMATS])
+            const seconds = parsed.status === "valid" ? toTimeValue(parsed.date) : null
+            return seconds === null ? [] : [formatTimeValue(seconds)]
+        }
+        default:
+            return []
+    }
+}
+
+/**
+ * Phone number without punctuation, then in E.164. A number that is only
+ * valid for one other country gets that country's code.
+ */
+function getPhoneCandidates(text: string, defaultCountry: string): string[] {
+    const digits = text.replace(/\D/g, "")
+    if (!digits) return []
+
+    const stripped = text.startsWith("+") ? `+${digits}` : digits
+    const parsed = parsePhoneNumber(stripped, defaultCountry)
+    if (parsed.status === "valid") return [stripped, parsed.e164]
+    return parsed.candidates.length === 1 ? [parsed.candidates[0].e164] : []
+}
+
+/**
+ * Possible fixes for a cell value, most conservative first. allowedValues are
+ * the enum and lookup values of the column, matched ignoring case.
+ */
+export function getFixCandidates(
+    value: unknown,
+    column: ColumnConfig,
+    typeConfig: DataTypeConfig,
+    allowedValues: string[] = [],
+): AutoFixCandidate[] {
+    if (typeof value !== "string" && typeof value !== "number") return []
+
+    const text = String(value)
+    const trimmed = text.trim().replace(/\s+/g, " ")
+    if (!trimmed) return []
+
+    const candidates: AutoFixCandidate[] = []
+    const add = (kind: AutoFixKind, candidate: unknown) => {
+        if (candidate !== value && !candidates.some((other) => other.value === candidate)) {
+            candidates.push({ kind, value: candidate })
+        }
+    }
+
+    if (typeof value === "string" && trimmed !== text) add("trim", trimmed)
+
+    const allowed = allowedValues.find((allowedValue) => allowedValue.toLowerCase() === trimmed.toLowerCase())
+    if (allowed !== undefined) add("match", allowed)
+
+    switch (column.type) {
+        case "email":
+            add("lowercase", trimmed.replace(/^mailto:/i, "").replace(/\s/g, "").toLowerCase())
+            break
+
+        case "boolean": {
+            const word = trimmed.toLowerCase()
+            if (TRUE_WORDS.includes(word)) add("boolean", true)
+            if (FALSE_WORDS.includes(word)) add("boolean", false)
+            break
+        }
+
+        case "date":
+        case "datetime":
+        case "time":
+            if (typeof value === "string") {
+                getTemporalCandidates(trimmed, column.type, typeConfig).forEach((candidate) => add("date", candidate))
+            }
+            break
+
+        case "phone":
+            getPhoneCandidates(trimmed, typeConfig.phone.defaultCountry).forEach((candidate) => add("phone", candidate))
+            break
+    }
+
+    return candidates
+}
+
+/**
+ * Group the fixes attached to errors by column and kind. A cell with several
+ * errors is changed once.
+ */
+export function groupAutoFixes(errors: ValidationError[]): AutoFixGroup[] {
+    const groups = new Map<string, AutoFixGroup>()
+    const cells = new Set<string>()
+
+    errors.forEach((error) => {
+        const { fix } = error
+        if (!fix) return
+
+        const cellKey = `${fix.rowIndex}\u0000${error.column}`
+        if (cells.has(cellKey)) return
+        cells.add(cellKey)
+
+        const groupKey = `${error.column}\u0000${fix.kind}`
+        let group = groups.get(groupKey)
+        if (!group) {
+            group = { column: error.column, kind: fix.kind, changes: [] }
+            groups.set(groupKey, group)
+        }
+        group.changes.push({
+            rowIndex: fix.rowIndex,
+            row: error.row,
+            sheet: error.sheet,
+            column: error.column,
+            before: error.value,
+            after: fix.value,
+        })
+    })
+
+    return [...groups.values()]
+}
+
+/**
+ * Data with the changes applied. Changed rows are copied with their source
+ * location; the other rows are kept as they are.
+ */
+export function applyAutoFixes<T extends Record<string, unknown>>(data: T[], changes: AutoFixChange[]): T[] {
+    const result = [...data]
+
+    changes.forEach((change) => {
+        // Cells edited since validation are left alone
+        const row = result[change.rowIndex]
+        if (!row || row[change.column] !== change.before) return
+
+        const fixed = { ...row, [change.column]: change.after }
+        copyRowMetadata(row, fixed)
+        result[change.rowIndex] = fixed
+    })
+
+    return result
+}
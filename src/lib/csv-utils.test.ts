@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+import { decodeText, parseCsv, sniffDelimiter } from "./csv-utils"
+
+describe("sniffDelimiter", () => {
+    it("picks the separator that splits every line evenly", () => {
+        expect(sniffDelimiter("name;city;amount\nAnna;Berlin;1,50\nBen;Köln;2,75")).toBe(";")
+        expect(sniffDelimiter("name\tcity\nAnna\tBerlin")).toBe("\t")
+    })
+
+    it("ignores separators inside quoted fields", () => {
+        expect(sniffDelimiter('"a;b",c\n"d;e",f')).toBe(",")
+    })
+})
+
+describe("parseCsv", () => {
+    const options = { delimiter: ",", quoteChar: '"', escapeMode: "double" as const }
+
+    it("keeps delimiters and line breaks inside quoted fields", () => {
+        expect(parseCsv('id,note\n1,"a, b"\n2,"two\nlines"', options)).toEqual([
+            ["id", "note"],
+            ["1", "a, b"],
+            ["2", "two\nlines"],
+        ])
+    })
+
+    it("reads doubled quotes as one quote", () => {
+        expect(parseCsv('"say ""hi""",x', options)).toEqual([['say "hi"', "x"]])
+    })
+
+    it("reads backslash-escaped quotes in backslash mode", () => {
+        expect(parseCsv('"say \\"hi\\"",x', { ...options, escapeMode: "backslash" })).toEqual([['say "hi"', "x"]])
+    })
+
+    it("uses the configured quote character for doubled quotes", () => {
+        expect(parseCsv("'it''s',x", { ...options, quoteChar: "'" })).toEqual([["it's", "x"]])
+    })
+
+    it("accepts CRLF line endings and a missing trailing newline", () => {
+        expect(parseCsv("a,b\r\nc,d", options)).toEqual([
+            ["a", "b"],
+            ["c", "d"],
+        ])
+    })
+})
+
+describe("decodeText", () => {
+    const bytes = (...values: number[]) => new Uint8Array(values).buffer
+
+    it("uses the byte order mark", () => {
+        expect(decodeText(bytes(0xff, 0xfe, 0x68, 0x00, 0x69, 0x00)).text).toBe("hi")
+    })
+
+    it("falls back to Windows-1252 for invalid UTF-8", () => {
+        expect(decodeText(bytes(0x4b, 0xf6, 0x6c, 0x6e)).text).toBe("Köln")
+    })
+})
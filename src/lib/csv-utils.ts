@@ -0,0 +1,255 @@
+import * as XLSX from "xlsx"
+import type { CsvEncoding, CsvOptions } from "./types"
+
+// Delimiters tried when the delimiter is set to "auto", in order of preference on ties
+const DELIMITER_CANDIDATES = [",", ";", "\t", "|"]
+
+// How many lines are inspected when sniffing the delimiter
+const SNIFF_LINE_COUNT = 20
+
+// File extensions that are parsed with the CSV reader instead of SheetJS
+export const CSV_EXTENSIONS = [".csv", ".tsv", ".txt"]
+
+/**
+ * Check whether a file name should be read as delimited text
+ */
+export function isCsvFileName(fileName: string): boolean {
+    const lowerName = fileName.toLowerCase()
+    return CSV_EXTENSIONS.some((extension) => lowerName.endsWith(extension))
+}
+
+/**
+ * Detect the encoding from a byte order mark, returning the BOM length as well
+ */
+function detectBom(bytes: Uint8Array): { encoding: Exclude<CsvEncoding, "auto">; length: number } | null {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+        return { encoding: "utf-8", length: 3 }
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+        return { encoding: "utf-16le", length: 2 }
+    }
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+        return { encoding: "utf-16be", length: 2 }
+    }
+    return null
+}
+
+/**
+ * Guess UTF-16 without a BOM from the share of zero bytes at even or odd offsets
+ */
+function guessUtf16(bytes: Uint8Array): "utf-16le" | "utf-16be" | null {
+    const sample = bytes.subarray(0, Math.min(bytes.length, 1024))
+    if (sample.length < 4) return null
+
+    let evenZeros = 0
+    let oddZeros = 0
+    for (let i = 0; i < sample.length; i++) {
+        if (sample[i] === 0) {
+            if (i % 2 === 0) evenZeros++
+            else oddZeros++
+        }
+    }
+
+    const half = sample.length / 2
+    if (oddZeros > half * 0.6 && evenZeros < half * 0.1) return "utf-16le"
+    if (evenZeros > half * 0.6 && oddZeros < half * 0.1) return "utf-16be"
+    return null
+}
+
+/**
+ * Decode file bytes to text. With "auto" the BOM decides; without one the
+ * bytes are tried as UTF-16 and UTF-8, falling back to Windows-1252.
+ */
+export function decodeText(data: ArrayBuffer, encoding: CsvEncoding = "auto"): { text: string; encoding: string } {
+    const bytes = new Uint8Array(data)
+    const bom = detectBom(bytes)
+
+    // An explicit encoding wins, but a matching BOM is still stripped
+    if (encoding !== "auto") {
+        const offset = bom && bom.encoding === encoding ? bom.length : 0
+        return { text: new TextDecoder(encoding).decode(bytes.subarray(offset)), encoding }
+    }
+
+    if (bom) {
+        return { text: new TextDecoder(bom.encoding).decode(bytes.subarray(bom.length)), encoding: bom.encoding }
+    }
+
+    const utf16 = guessUtf16(bytes)
+    if (utf16) {
+        return { text: new TextDecoder(utf16).decode(bytes), encoding: utf16 }
+    }
+
+    try {
+        return { text: new TextDecoder("utf-8", { fatal: true }).decode(bytes), encoding: "utf-8" }
+    } catch {
+        // Not valid UTF-8, most likely a legacy Windows export
+        return { text: new TextDecoder("windows-1252").decode(bytes), encoding: "windows-1252" }
+    }
+}
+
+/**
+ * Count delimiter occurrences in a line, ignoring those inside quoted fields
+ */
+function countDelimiters(line: string, delimiter: string, quoteChar: string): number {
+    let count = 0
+    let inQuotes = false
+
+    for (const char of line) {
+        if (char === quoteChar) {
+            inQuotes = !inQuotes
+        } else if (char === delimiter && !inQuotes) {
+            count++
+        }
+    }
+
+    return count
+}
+
+/**
+ * Pick the delimiter that splits the first lines into the most consistent
+ * number of fields. Defaults to a comma when no candidate appears.
+ */
+export function sniffDelimiter(text: string, quoteChar = '"'): string {
+    const lines = text
+        .split(/\r\n|\n|\r/)
+        .filter((line) => line.trim() !== "")
+        .slice(0, SNIFF_LINE_COUNT)
+
+    let bestDelimiter = ","
+    let bestScore = 0
+
+    DELIMITER_CANDIDATES.forEach((delimiter) => {
+        const counts = lines.map((line) => countDelimiters(line, delimiter, quoteChar))
+        const present = counts.filter((count) => count > 0)
+        if (present.length === 0) return
+
+        // Lines that agree with the most common count, weighted by how many fields that gives
+        const frequency = new Map<number, number>()
+        present.forEach((count) => frequency.set(count, (frequency.get(count) || 0) + 1))
+        const [modeCount, modeLines] = [...frequency.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0]
+
+        const score = (modeLines / lines.length) * (modeCount + 1)
+        if (score > bestScore) {
+            bestScore = score
+            bestDelimiter = delimiter
+        }
+    })
+
+    return bestDelimiter
+}
+
+/**
+ * Split delimited text into rows of fields. Quoted fields may contain
+ * delimiters and line breaks, and quotes escaped by doubling them or with a
+ * backslash.
+ */
+export function parseCsv(text: string, options: Pick<CsvOptions, "delimiter" | "quoteChar" | "escapeMode">): string[][] {
+    const { delimiter, quoteChar, escapeMode } = options
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ""
+    let inQuotes = false
+    let i = 0
+
+    const endField = () => {
+        row.push(field)
+        field = ""
+    }
+
+    const endRow = () => {
+        endField()
+        rows.push(row)
+        row = []
+    }
+
+    while (i < text.length) {
+        const char = text[i]
+
+        if (inQuotes) {
+            if (escapeMode === "backslash" && char === "\\" && i + 1 < text.length) {
+                field += text[i + 1]
+                i += 2
+                continue
+            }
+            if (char === quoteChar) {
+                if (escapeMode === "double" && text[i + 1] === quoteChar) {
+                    field += quoteChar
+                    i += 2
+                    continue
+                }
+                inQuotes = false
+                i++
+                continue
+            }
+            field += char
+            i++
+            continue
+        }
+
+        if (quoteChar && char === quoteChar && field === "") {
+            inQuotes = true
+        } else if (text.startsWith(delimiter, i)) {
+            endField()
+            i += delimiter.length
+            continue
+        } else if (char === "\r" || char === "\n") {
+            endRow()
+            if (char === "\r" && text[i + 1] === "\n") i++
+        } else {
+            field += char
+        }
+        i++
+    }
+
+    // Last line without a trailing newline
+    if (field !== "" || row.length > 0) {
+        endRow()
+    }
+
+    return rows
+}
+
+/**
+ * Parse a delimited text file into a single-sheet workbook so it goes through
+ * the same header detection and row conversion as spreadsheets.
+ */
+export function readCsvWorkbook(data: ArrayBuffer, options: CsvOptions): XLSX.WorkBook {
+    const { text } = decodeText(data, options.encoding)
+    const lines = text.split(/\r\n|\n|\r/)
+    const skipped = Math.min(Math.max(0, options.skipLines), lines.length)
+    const content = lines.slice(skipped).join("\n")
+
+    const delimiter = options.delimiter === "auto" ? sniffDelimiter(content, options.quoteChar) : options.delimiter
+    const rows = parseCsv(content, { ...options, delimiter })
+
+    // Skipped lines become empty rows so row numbers still match the file
+    const worksheet = XLSX.utils.aoa_to_sheet([...Array.from({ length: skipped }, () => []), ...rows])
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, worksheet, "Sheet1")
+    return workbook
+}
+
+/**
+ * Options for writing delimited text
+ */
+export interface CsvWriteOptions {
+    delimiter: string
+    lineEnding: string
+    quoteChar?: string
+}
+
+/**
+ * Write rows of fields as delimited text. Fields containing the delimiter,
+ * the quote character or a line break are quoted, with quotes doubled.
+ */
+export function serializeCsv(rows: string[][], options: CsvWriteOptions): string {
+    const { delimiter, lineEnding, quoteChar = '"' } = options
+
+    const escapeField = (field: string) => {
+        const needsQuotes =
+            field.includes(delimiter) || field.includes(quoteChar) || field.includes("\n") || field.includes("\r")
+        return needsQuotes ? `${quoteChar}${field.split(quoteChar).join(quoteChar + quoteChar)}${quoteChar}` : field
+    }
+
+    return rows.map((row) => row.map(escapeField).join(delimiter)).join(lineEnding) + lineEnding
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest"
+import {
+    combineDateAndTime,
+    getCombinedValue,
+    parseDateInput,
+    splitDateFormats,
+    toTimeValue,
+} from "./date-utils"
+import { defaultDataTypeConfig } from "./default-config"
+
+const { inputFormats } = defaultDataTypeConfig.date
+
+describe("parseDateInput", () => {
+    it("always accepts ISO dates", () => {
+        expect(parseDateInput("2025-04-03").status).toBe("valid")
+    })
+
+    it("rejects text that no format matches instead of guessing", () => {
+        expect(parseDateInput("03/04/2025").status).toBe("invalid")
+        expect(parseDateInput("soon", inputFormats).status).toBe("invalid")
+    })
+
+    it("rejects impossible dates", () => {
+        expect(parseDateInput("31/02/2025", ["dd/MM/yyyy"]).status).toBe("invalid")
+    })
+
+    it("reports day/month values that several formats read differently as ambiguous", () => {
+        const result = parseDateInput("03/04/2025", inputFormats)
+        expect(result.status).toBe("ambiguous")
+        if (result.status === "ambiguous") {
+            expect(result.candidates.map((candidate) => candidate.format)).toEqual(["M/d/yyyy", "d/M/yyyy"])
+        }
+    })
+
+    it("reads values only one format accepts", () => {
+        const result = parseDateInput("13/04/2025", inputFormats)
+        expect(result.status === "valid" && result.date).toEqual(new Date(2025, 3, 13))
+    })
+
+    it("accepts month names with the default formats", () => {
+        expect(parseDateInput("Mar 4, 2025", inputFormats).status).toBe("valid")
+        expect(parseDateInput("4 Mar 2025", inputFormats).status).toBe("valid")
+    })
+})
+
+describe("toTimeValue", () => {
+    it("accepts 24-hour and 12-hour times with optional seconds", () => {
+        expect(toTimeValue("14:30")).toBe(14 * 3600 + 30 * 60)
+        expect(toTimeValue("2:30 PM")).toBe(14 * 3600 + 30 * 60)
+        expect(toTimeValue("14:30:15")).toBe(14 * 3600 + 30 * 60 + 15)
+        expect(toTimeValue("25:00")).toBeNull()
+    })
+})
+
+describe("splitDateFormats", () => {
+    it("keeps quoted commas in the pattern", () => {
+        expect(splitDateFormats("dd/MM/yyyy, MMM d',' yyyy,, d MMM yyyy")).toEqual([
+            "dd/MM/yyyy",
+            "MMM d',' yyyy",
+            "d MMM yyyy",
+        ])
+    })
+})
+
+describe("combineDateAndTime", () => {
+    it("uses the offset of the time zone on that day", () => {
+        expect(combineDateAndTime(new Date(2025, 0, 15), 9 * 3600, "Europe/Berlin")).toBe("2025-01-15T09:00:00+01:00")
+        expect(combineDateAndTime(new Date(2025, 6, 15), 9 * 3600, "Europe/Berlin")).toBe("2025-07-15T09:00:00+02:00")
+    })
+})
+
+describe("getCombinedValue", () => {
+    const combination = {
+        dateColumn: "date",
+        timeColumn: "time",
+        outputColumn: "starts_at",
+        timeZone: "UTC",
+        removeSourceColumns: false,
+    }
+
+    it("reads the date with the column's input formats", () => {
+        const row = { date: "18.10.2025", time: "14:30" }
+        expect(getCombinedValue(row, combination, { date: ["dd.MM.yyyy"], time: [] })).toBe("2025-10-18T14:30:00+00:00")
+    })
+
+    it("is null when a part is missing or unreadable", () => {
+        expect(getCombinedValue({ date: "18.10.2025", time: "" }, combination, { date: ["dd.MM.yyyy"], time: [] })).toBeNull()
+        expect(getCombinedValue({ date: "18.10.2025", time: "14:30" }, combination, { date: [], time: [] })).toBeNull()
+    })
+})
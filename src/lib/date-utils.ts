@@ -0,0 +1,388 @@
+import { format as formatDate, isValid, parse, parseISO } from "date-fns"
+import type { ColumnConfig, DataTypeConfig, DateTimeCombination, ImporterConfig } from "./types"
+import { copyRowMetadata, excelSerialToDate, formatDateValue } from "./excel-utils"
+
+// ISO dates are unambiguous, so they are accepted whatever formats a column declares
+export const ISO_DATE_FORMATS = ["yyyy-MM-dd", "yyyy-MM-dd HH:mm", "yyyy-MM-dd HH:mm:ss", "yyyy-MM-dd'T'HH:mm:ss"]
+
+// Date and time of day without an offset; a date alone means midnight
+export const ISO_DATE_TIME_FORMATS = [
+    "yyyy-MM-dd HH:mm",
+    "yyyy-MM-dd HH:mm:ss",
+    "yyyy-MM-dd'T'HH:mm",
+    "yyyy-MM-dd'T'HH:mm:ss",
+    "yyyy-MM-dd",
+]
+
+// 24-hour and 12-hour clock times, seconds optional
+export const TIME_FORMATS = ["HH:mm", "HH:mm:ss", "h:mm a", "h:mm:ss a", "h:mma", "h:mm:ssa", "h a", "ha"]
+
+// ISO timestamps that carry their own offset, e.g. 2025-04-03T14:30:00+02:00
+const ISO_OFFSET_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i
+
+const SECONDS_PER_DAY = 24 * 60 * 60
+
+// Day, month and year are always in the input, so the reference date only fills unused fields
+const REFERENCE_DATE = new Date(2000, 0, 1)
+
+export interface DateCandidate {
+    date: Date
+    format: string
+}
+
+export type DateParseResult =
+    | { status: "valid"; date: Date; format: string }
+    // The text matches several accepted formats that give different dates, e.g. 03/04/2025
+    | { status: "ambiguous"; candidates: DateCandidate[] }
+    | { status: "invalid" }
+
+// Patterns date-fns rejected, skipped afterwards so its warning is only logged once
+const invalidFormats = new Set<string>()
+
+/**
+ * Parse text against one date-fns format, rejecting partial matches, impossible
+ * dates like 31/02 and two-digit years read by a four-digit pattern
+ */
+function parseWithFormat(text: string, format: string): Date | null {
+    if (invalidFormats.has(format)) return null
+
+    try {
+        const date = parse(text, format, REFERENCE_DATE)
+        if (!isValid(date) || date.getFullYear() < 1000 || date.getFullYear() > 9999) return null
+        return date
+    } catch {
+        // Invalid pattern, e.g. YYYY or DD, which date-fns reads as week-year and day of year
+        invalidFormats.add(format)
+        return null
+    }
+}
+
+/**
+ * Try each format in order and collect the distinct dates the text parses to
+ */
+function parseWithFormats(text: string, formats: string[]): DateParseResult {
+    const trimmed = text.trim()
+    if (!trimmed) return { status: "invalid" }
+
+    const candidates: DateCandidate[] = []
+    for (const format of [...new Set(formats)]) {
+        const date = parseWithFormat(trimmed, format)
+        if (date && !candidates.some((candidate) => candidate.date.getTime() === date.getTime())) {
+            candidates.push({ date, format })
+        }
+    }
+
+    if (candidates.length === 0) return { status: "invalid" }
+    if (candidates.length > 1) return { status: "ambiguous", candidates }
+    return { status: "valid", ...candidates[0] }
+}
+
+/**
+ * Strictly parse a date string against the accepted input formats, tried in
+ * order after the ISO formats. Text matching formats that disagree on the
+ * date is reported as ambiguous instead of picking one.
+ */
+export function parseDateInput(text: string, inputFormats: string[] = []): DateParseResult {
+    return parseWithFormats(text, [...ISO_DATE_FORMATS, ...inputFormats])
+}
+
+/**
+ * Parse a date and time string. ISO timestamps with an offset keep the instant
+ * they describe; everything else is read as local time.
+ */
+export function parseDateTimeInput(text: string, inputFormats: string[] = []): DateParseResult {
+    const trimmed = text.trim()
+    if (ISO_OFFSET_PATTERN.test(trimmed)) {
+        const date = parseISO(trimmed)
+        return isValid(date) ? { status: "valid", date, format: "ISO 8601" } : { status: "invalid" }
+    }
+    return parseWithFormats(trimmed, [...ISO_DATE_TIME_FORMATS, ...inputFormats])
+}
+
+/**
+ * Parse a time of day; the date part of the result is meaningless
+ */
+export function parseTimeInput(text: string, inputFormats: string[] = []): DateParseResult {
+    return parseWithFormats(text, [...TIME_FORMATS, ...inputFormats])
+}
+
+/**
+ * Convert a cell value to a date: Date objects as they are, numbers as Excel
+ * serial dates and strings through the accepted input formats
+ */
+export function toDateValue(value: unknown, inputFormats: string[] = []): Date | null {
+    if (value instanceof Date) return isNaN(value.getTime()) ? null : value
+    if (typeof value === "number") return excelSerialToDate(value)
+    if (typeof value === "string") {
+        const result = parseDateInput(value, inputFormats)
+        return result.status === "valid" ? result.date : null
+    }
+    return null
+}
+
+/**
+ * Normalize a date cell to an ISO YYYY-MM-DD string (with the time of day when
+ * it has one). Values that are not a single unambiguous date are returned unchanged.
+ */
+export function normalizeDateValue(value: unknown, inputFormats: string[] = []): unknown {
+    const date = toDateValue(value, inputFormats)
+    return date ? formatDateValue(date) : value
+}
+
+/**
+ * Convert a cell value to a timestamp: Date objects as they are, numbers as
+ * Excel serial dates and strings through the accepted input formats
+ */
+export function toDateTimeValue(value: unknown, inputFormats: string[] = []): Date | null {
+    if (typeof value === "string") {
+        const result = parseDateTimeInput(value, inputFormats)
+        return result.status === "valid" ? result.date : null
+    }
+    return toDateValue(value, inputFormats)
+}
+
+/**
+ * Normalize a date and time cell to an ISO string. Timestamps with an offset
+ * are kept as written so the offset is not lost.
+ */
+export function normalizeDateTimeValue(value: unknown, inputFormats: string[] = []): unknown {
+    if (typeof value === "string" && ISO_OFFSET_PATTERN.test(value.trim())) {
+        return toDateTimeValue(value) ? value.trim() : value
+    }
+    const date = toDateTimeValue(value, inputFormats)
+    return date ? formatDate(date, "yyyy-MM-dd'T'HH:mm:ss") : value
+}
+
+function getSecondsOfDay(date: Date): number {
+    return date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds()
+}
+
+/**
+ * Convert a cell value to seconds since midnight. Numbers are Excel time
+ * fractions of a day and Date objects contribute only their time of day.
+ */
+export function toTimeValue(value: unknown, inputFormats: string[] = []): number | null {
+    if (value instanceof Date) return isNaN(value.getTime()) ? null : getSecondsOfDay(value)
+    if (typeof value === "number") {
+        return value >= 0 && value < 1 ? Math.round(value * SECONDS_PER_DAY) % SECONDS_PER_DAY : null
+    }
+    if (typeof value === "string") {
+        const result = parseTimeInput(value, inputFormats)
+        return result.status === "valid" ? getSecondsOfDay(result.date) : null
+    }
+    return null
+}
+
+/**
+ * Format seconds since midnight as HH:mm, or HH:mm:ss when there are seconds
+ */
+export function formatTimeValue(seconds: number): string {
+    const pad = (n: number) => String(n).padStart(2, "0")
+    const text = `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor((seconds % 3600) / 60))}`
+    return seconds % 60 === 0 ? text : `${text}:${pad(seconds % 60)}`
+}
+
+/**
+ * Normalize a time cell to 24-hour HH:mm[:ss]. Unparseable values are returned unchanged.
+ */
+export function normalizeTimeValue(value: unknown, inputFormats: string[] = []): unknown {
+    const seconds = toTimeValue(value, inputFormats)
+    return seconds === null ? value : formatTimeValue(seconds)
+}
+
+/**
+ * Normalize a value of a date, time or datetime column using that type's
+ * input formats; values of other types are returned unchanged
+ */
+export function normalizeTemporalValue(value: unknown, type: string, typeConfig: DataTypeConfig): unknown {
+    switch (type) {
+        case "date":
+            return normalizeDateValue(value, typeConfig.date.inputFormats)
+        case "time":
+            return normalizeTimeValue(value, typeConfig.time.inputFormats)
+        case "datetime":
+            return normalizeDateTimeValue(value, typeConfig.datetime.inputFormats)
+        default:
+            return value
+    }
+}
+
+/**
+ * List the formats a date, time or datetime column accepts, for messages and hints
+ */
+export function describeDateFormats(inputFormats: string[] = [], type: "date" | "time" | "datetime" = "date"): string {
+    const base = type === "time" ? ["HH:mm", "h:mm a"] : type === "datetime" ? [ISO_DATE_TIME_FORMATS[0]] : [ISO_DATE_FORMATS[0]]
+    return [...new Set([...base, ...inputFormats])].join(", ")
+}
+
+/**
+ * Split a comma-separated list of date-fns patterns. Commas in quoted literal
+ * text, as in MMM d',' yyyy, belong to the pattern.
+ */
+export function splitDateFormats(text: string): string[] {
+    const formats: string[] = []
+    let current = ""
+    let quoted = false
+    for (const char of text) {
+        if (char === "'") quoted = !quoted
+        if (char === "," && !quoted) {
+            formats.push(current)
+            current = ""
+        } else {
+            current += char
+        }
+    }
+    formats.push(current)
+    return formats.map((format) => format.trim()).filter(Boolean)
+}
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>()
+
+/**
+ * Check that a time zone name is known to the browser, e.g. Europe/Berlin
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone })
+        return true
+    } catch {
+        return false
+    }
+}
+
+/**
+ * Offset of a time zone from UTC in minutes at the given instant
+ */
+function getTimeZoneOffset(timestamp: number, timeZone: string): number {
+    let formatter = offsetFormatters.get(timeZone)
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            hourCycle: "h23",
+            year: "numeric",
+            month: "2-digit",
+            day: "2-digit",
+            hour: "2-digit",
+            minute: "2-digit",
+            second: "2-digit",
+        })
+        offsetFormatters.set(timeZone, formatter)
+    }
+
+    const parts = Object.fromEntries(formatter.formatToParts(new Date(timestamp)).map((part) => [part.type, part.value]))
+    const wallTime = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second)
+    return Math.round((wallTime - Math.floor(timestamp / 1000) * 1000) / 60000)
+}
+
+function formatOffset(minutes: number): string {
+    const pad = (n: number) => String(n).padStart(2, "0")
+    const sign = minutes < 0 ? "-" : "+"
+    return `${sign}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`
+}
+
+/**
+ * Combine a calendar date and a time of day into an ISO timestamp with the
+ * offset of the time zone on that day, e.g. 2025-04-03T14:30:00+02:00.
+ * Without a time zone the browser's own zone is used.
+ */
+export function combineDateAndTime(date: Date, seconds: number, timeZone?: string): string {
+    const hours = Math.floor(seconds / 3600)
+    const minutes = Math.floor((seconds % 3600) / 60)
+    const wallTime = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes, seconds % 60)
+
+    let offset: number
+    if (timeZone) {
+        // The offset depends on the instant, so correct it once for days where it changes
+        offset = getTimeZoneOffset(wallTime, timeZone)
+        offset = getTimeZoneOffset(wallTime - offset * 60000, timeZone)
+    } else {
+        offset = -new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes, seconds % 60).getTimezoneOffset()
+    }
+
+    return `${new Date(wallTime).toISOString().slice(0, 19)}${formatOffset(offset)}`
+}
+
+// Input formats the date and time columns of a combination are read with
+export interface CombinationFormats {
+    date: string[]
+    time: string[]
+}
+
+/**
+ * Combined timestamp of a row's date and time cells, or null when either is
+ * missing or cannot be read with the columns' input formats
+ */
+export function getCombinedValue(
+    row: Record<string, unknown>,
+    combination: DateTimeCombination,
+    formats: CombinationFormats,
+): string | null {
+    const date = toDateValue(row[combination.dateColumn], formats.date)
+    const seconds = toTimeValue(row[combination.timeColumn], formats.time)
+    return date && seconds !== null ? combineDateAndTime(date, seconds, combination.timeZone || undefined) : null
+}
+
+/**
+ * Replace the date and time columns of a combination with the combined
+ * timestamp, placed where the date column was
+ */
+export function combineRow(
+    row: Record<string, unknown>,
+    combination: DateTimeCombination,
+    formats: CombinationFormats,
+): Record<string, unknown> {
+    const combined = getCombinedValue(row, combination, formats)
+
+    const sources = [combination.dateColumn, combination.timeColumn]
+    const result: Record<string, unknown> = {}
+    Object.entries(row).forEach(([key, value]) => {
+        if (key === combination.dateColumn) result[combination.outputColumn] = combined
+        if (key === combination.outputColumn) return
+        if (combination.removeSourceColumns && sources.includes(key)) return
+        if (!(key in result)) result[key] = value
+    })
+    if (!(combination.outputColumn in result)) result[combination.outputColumn] = combined
+
+    copyRowMetadata(row, result)
+    return result
+}
+
+/**
+ * Combinations with a date, time and output column set
+ */
+export function getDateTimeCombinations(config: ImporterConfig): DateTimeCombination[] {
+    return (config.dateTimeCombinations || []).filter(
+        (combination) => combination.dateColumn && combination.timeColumn && combination.outputColumn,
+    )
+}
+
+/**
+ * Columns of the processed output: the configured columns with each combined
+ * timestamp column in place of its date column
+ */
+export function getOutputColumns(config: ImporterConfig): ColumnConfig[] {
+    return (config.dateTimeCombinations || []).reduce((columns, combination) => {
+        const dateColumn = columns.find((column) => column.name === combination.dateColumn)
+        const timeColumn = columns.find((column) => column.name === combination.timeColumn)
+        if (!dateColumn || !timeColumn || !combination.outputColumn) return columns
+
+        const output: ColumnConfig = {
+            name: combination.outputColumn,
+            required: dateColumn.required && timeColumn.required,
+            type: "datetime",
+            description: `${dateColumn.displayName || dateColumn.name} and ${timeColumn.displayName || timeColumn.name} combined`,
+            validationRules: [],
+            invalidHandling: dateColumn.invalidHandling,
+        }
+        const sources = [combination.dateColumn, combination.timeColumn]
+
+        return columns.flatMap((column) => {
+            if (column.name === combination.dateColumn) {
+                return combination.removeSourceColumns || column.name === output.name ? [output] : [column, output]
+            }
+            if (column.name === output.name) return []
+            if (combination.removeSourceColumns && sources.includes(column.name)) return []
+            return [column]
+        })
+    }, config.columns)
+}
@@ -1,4 +1,4 @@
-import type { ImporterConfig, DataTypeConfig } from "./types"
+import type { ImporterConfig, DataTypeConfig, CsvOptions } from "./types"
 
 export const defaultDataTypeConfig: DataTypeConfig = {
     string: {
@@ -11,9 +11,30 @@ export const defaultDataTypeConfig: DataTypeConfig = {
         max: null,
         precision: 2,
         integerOnly: false,
+        decimalSeparator: ".",
+        thousandsSeparator: ",",
+        currencySymbols: ["$", "€", "£", "¥", "₹", "Rs", "USD", "EUR", "GBP", "INR"],
+        allowPercent: true,
     },
+    // ISO comes first so templates and fixes use it; slash dates are listed
+    // month-first and day-first, so 03/04/2025 is reported as ambiguous
     date: {
         format: "YYYY-MM-DD",
+        inputFormats: ["yyyy-MM-dd", "M/d/yyyy", "d/M/yyyy", "MMM d',' yyyy", "MMMM d',' yyyy", "d MMM yyyy"],
+    },
+    time: {
+        inputFormats: [],
+    },
+    datetime: {
+        inputFormats: [
+            "yyyy-MM-dd HH:mm",
+            "M/d/yyyy H:mm",
+            "d/M/yyyy H:mm",
+            "M/d/yyyy H:mm:ss",
+            "d/M/yyyy H:mm:ss",
+            "M/d/yyyy h:mm a",
+            "d/M/yyyy h:mm a",
+        ],
     },
     boolean: {
         trueValues: ["true", "yes", "1", "y"],
@@ -25,17 +46,40 @@ export const defaultDataTypeConfig: DataTypeConfig = {
         allowedDomains: [],
     },
     phone: {
-        pattern: "^[\\d\\+\\-$$$$ ]{7,20}$",
         format: "(###) ###-####",
+        defaultCountry: "US",
         allowInternational: true,
     },
 }
 
+export const defaultCsvOptions: CsvOptions = {
+    delimiter: "auto",
+    quoteChar: '"',
+    escapeMode: "double",
+    encoding: "auto",
+    skipLines: 0,
+}
+
 export const defaultImporterConfig: ImporterConfig = {
     columns: [],
-    acceptedFormats: [".xlsx", ".xls", ".csv"],
+    acceptedFormats: [".xlsx", ".xls", ".csv", ".json", ".ndjson"],
     invalidColumnHandling: "warn",
     dataTypeConfig: defaultDataTypeConfig,
+    headerRow: "auto",
+    headerDetectionRows: 10,
+    csv: defaultCsvOptions,
+    rowRules: [],
+    uniqueKeys: [],
+    detectDuplicateRows: true,
+    duplicateHandling: "flagAll",
+    dateTimeCombinations: [],
+    lookupTables: [],
+    remoteValidation: {
+        batchSize: 100,
+        concurrency: 4,
+        timeoutMs: 10000,
+        cacheTtlMs: 5 * 60 * 1000,
+    },
 }
 
 export function createDefaultColumnConfig(name: string) {
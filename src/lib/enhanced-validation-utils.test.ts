@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest"
+import type { ColumnConfig, DuplicateHandling, ImporterConfig } from "./types"
+import { combineDateTimeColumns, removeDuplicateRows, validateData } from "./enhanced-validation-utils"
+import { defaultImporterConfig } from "./default-config"
+
+function column(name: string, type: ColumnConfig["type"], overrides: Partial<ColumnConfig> = {}): ColumnConfig {
+    return { name, type, required: false, validationRules: [], invalidHandling: "reject", ...overrides }
+}
+
+describe("duplicate detection", () => {
+    const bookings = [
+        { phone: "555-0100", date: "2025-04-03", note: "first" },
+        { phone: "555-0199", date: "2025-04-03", note: "other" },
+        { phone: "555-0100", date: "2025-04-03", note: "second" },
+        { phone: "555-0100", date: "2025-04-03", note: "third" },
+    ]
+
+    function configFor(duplicateHandling: DuplicateHandling): ImporterConfig {
+        return {
+            ...defaultImporterConfig,
+            columns: [column("phone", "string"), column("date", "date"), column("note", "string")],
+            uniqueKeys: [{ columns: ["phone", "date"] }],
+            detectDuplicateRows: false,
+            duplicateHandling,
+        }
+    }
+
+    const duplicates = (config: ImporterConfig) =>
+        validateData(bookings, config)
+            .errors.filter((error) => error.duplicateOf)
+            .map((error) => [error.row, error.duplicateOf?.row])
+
+    it("points the dropped occurrences at the first row with keep first", () => {
+        const config = configFor("keepFirst")
+        expect(duplicates(config)).toEqual([
+            [4, 2],
+            [5, 2],
+        ])
+        expect(removeDuplicateRows(bookings, config).map((row) => row.note)).toEqual(["first", "other"])
+        expect(validateData(bookings, config).valid).toBe(true)
+    })
+
+    it("points the dropped occurrences at the last row with keep last", () => {
+        const config = configFor("keepLast")
+        expect(duplicates(config)).toEqual([
+            [2, 5],
+            [4, 5],
+        ])
+        expect(removeDuplicateRows(bookings, config).map((row) => row.note)).toEqual(["other", "third"])
+    })
+
+    it("reports every occurrence and keeps all rows with flag all", () => {
+        const config = configFor("flagAll")
+        const result = validateData(bookings, config)
+        expect(result.valid).toBe(false)
+        expect(result.errors.filter((error) => error.column === "phone + date").map((error) => error.row)).toEqual([2, 4, 5])
+        expect(removeDuplicateRows(bookings, config)).toHaveLength(4)
+    })
+
+    it("detects rows that repeat in every column", () => {
+        const config = { ...configFor("keepFirst"), uniqueKeys: [], detectDuplicateRows: true }
+        const rows = [bookings[0], { ...bookings[0] }, bookings[1]]
+        expect(validateData(rows, config).errors.map((error) => [error.row, error.column])).toEqual([[3, "(entire row)"]])
+    })
+})
+
+describe("date parsing in validateData", () => {
+    const config: ImporterConfig = {
+        ...defaultImporterConfig,
+        columns: [column("date", "date")],
+        detectDuplicateRows: false,
+    }
+
+    it("reports ambiguous dates with a suggestion instead of picking one", () => {
+        const [error] = validateData([{ date: "03/04/2025" }], config).errors
+        expect(error.message).toMatch(/ambiguous/)
+        expect(error.suggestion).toBeTruthy()
+    })
+
+    it("accepts unambiguous dates in the default formats", () => {
+        expect(validateData([{ date: "13/04/2025" }, { date: "Mar 4, 2025" }], config).errors).toEqual([])
+    })
+})
+
+describe("date and time combinations", () => {
+    const config: ImporterConfig = {
+        ...defaultImporterConfig,
+        columns: [
+            column("date", "date", { transform: "none", typeConfig: { date: { inputFormats: ["dd.MM.yyyy"] } } }),
+            column("time", "time"),
+        ],
+        detectDuplicateRows: false,
+        dateTimeCombinations: [
+            { dateColumn: "date", timeColumn: "time", outputColumn: "starts_at", timeZone: "UTC", removeSourceColumns: true },
+        ],
+    }
+
+    it("reads the source columns with their input formats", () => {
+        expect(combineDateTimeColumns([{ date: "18.10.2025", time: "14:30" }], config)).toEqual([
+            { starts_at: "2025-10-18T14:30:00+00:00" },
+        ])
+    })
+
+    it("reports rows that cannot be combined", () => {
+        const errors = validateData([{ date: "18.10.2025", time: "" }, { date: "", time: "" }], config).errors
+        expect(errors.map((error) => [error.row, error.column, error.type])).toEqual([[2, "time", "missing"]])
+    })
+})
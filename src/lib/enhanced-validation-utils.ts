@@ -1,17 +1,66 @@
+import { parseISO } from "date-fns"
 import type {
+    AutoFix,
+    BooleanTypeConfig,
     ColumnConfig,
     ValidationError,
     ValidationResult,
     HeaderValidationResult,
+    HeaderIssue,
     FileValidationResult,
     ImporterConfig,
     DataTypeConfig,
+    RowCondition,
+    RowRule,
+    DateTimeCombination,
+    ValidationSeverity,
 } from "./types"
+import {
+    excelSerialToDate,
+    formatCellValue,
+    formatDateValue,
+    getRowSource,
+    PROGRESS_INTERVAL,
+    type ProgressCallback,
+} from "./excel-utils"
+import {
+    describeDateFormats,
+    formatTimeValue,
+    combineRow,
+    getCombinedValue,
+    getDateTimeCombinations,
+    getOutputColumns,
+    normalizeTemporalValue,
+    parseDateInput,
+    parseDateTimeInput,
+    parseTimeInput,
+    toDateTimeValue,
+    toDateValue,
+    toTimeValue,
+    type CombinationFormats,
+    type DateCandidate,
+} from "./date-utils"
+import { evaluateExpression } from "./expression-utils"
+import {
+    formatNumberExample,
+    getNumberFormatError,
+    normalizeNumberValue,
+    parseLocaleNumber,
+    toNumberValue,
+} from "./number-utils"
+import { findSimilarValues, isLookupValue } from "./lookup-utils"
+import { getFixCandidates } from "./auto-fix"
+import { getPhoneCountry, getPhoneSuggestion, normalizePhoneValue, parsePhoneNumber } from "./phone-utils"
 
 /**
- * Validates Excel file headers against expected column configuration
+ * Validates Excel file headers against expected column configuration.
+ * Unresolved duplicate or blank headers also make the result invalid.
  */
-export function validateHeaders(fileHeaders: string[], config: ImporterConfig): HeaderValidationResult {
+export function validateHeaders(
+    fileHeaders: string[],
+    config: ImporterConfig,
+    headerIssues: HeaderIssue[] = [],
+): HeaderValidationResult {
     const present: string[] = []
     const missingRequired: string[] = []
     const unrecognized: string[] = []
@@ -32,12 +81,20 @@ export function validateHeaders(fileHeaders: string[], config: ImporterConfig):
         }
     })
 
+    // Issues for columns that were removed since parsing no longer apply, and
+    // the same key reported by several sheets is listed once
+    const openIssues = headerIssues.filter(
+        (issue, index) =>
+            fileHeaders.includes(issue.key) && headerIssues.findIndex((other) => other.key === issue.key) === index,
+    )
+
     return {
-        valid: missingRequired.length === 0,
+        valid: missingRequired.length === 0 && openIssues.length === 0,
         expected: config.columns,
         present,
         missingRequired,
         unrecognized,
+        headerIssues: openIssues,
     }
 }
 
@@ -52,7 +109,7 @@ export function validateFileFormat(fileName: string, acceptedFormats: string[]):
 /**
  * Validates data against column configuration with improved error handling
  */
-export function validateData(data: any[], config: ImporterConfig): ValidationResult {
+export function validateData(data: any[], config: ImporterConfig, onProgress?: ProgressCallback): ValidationResult {
     const errors: ValidationError[] = []
 
     // Create a map of column names to their configuration for faster lookup
@@ -61,8 +118,28 @@ export function validateData(data: any[], config: ImporterConfig): ValidationRes
         configMap.set(column.name, column)
     })
 
+    // Type settings with each column's overrides applied
+    const typeConfigs = new Map<string, DataTypeConfig>()
+    config.columns.forEach((column) => {
+        typeConfigs.set(column.name, getColumnTypeConfig(column, config.dataTypeConfig))
+    })
+    const typeConfigFor = (columnName: string) => typeConfigs.get(columnName) || config.dataTypeConfig
+    const combinations = getDateTimeCombinations(config).map((combination) => ({
+        combination,
+        formats: getCombinationFormats(combination, config),
+    }))
+
+    // Untagged rows are numbered from the configured header row
+    const headerRow = typeof config.headerRow === "number" ? config.headerRow : 1
+
     // Validate each row
     data.forEach((row, rowIndex) => {
+        if (onProgress && rowIndex > 0 && rowIndex % PROGRESS_INTERVAL === 0) {
+            onProgress(rowIndex, data.length)
+        }
+
+        const location = getRowLocation(row, rowIndex, headerRow)
+
         // Check for required fields
         config.columns.forEach((column) => {
             const { name, required } = column
@@ -75,7 +152,7 @@ export function validateData(data: any[], config: ImporterConfig): ValidationRes
             // Check if required field is missing or empty
             if (value === undefined || value === null || value === "") {
                 errors.push({
-                    row: rowIndex + 2, // +2 because row 0 is headers and we're 1-indexing for users
+                    ...location,
                     column: name,
                     value: value,
                     message: `Required field "${column.displayName || name}" is missing or empty`,
@@ -97,51 +174,165 @@ export function validateData(data: any[], config: ImporterConfig): ValidationRes
                 return
             }
 
-            // Type validation
-            const typeError = validateType(value, column.type, config.dataTypeConfig)
-            if (typeError) {
+            // Errors of the cell share the first fix that clears all of them
+            const cellErrors = validateCell(value, column, typeConfigFor(columnName), row, config.lookupValues)
+            const fix =
+                cellErrors.length > 0
+                    ? findAutoFix(value, column, typeConfigFor(columnName), row, rowIndex, config.lookupValues)
+                    : undefined
+
+            cellErrors.forEach((cellError) => {
+                errors.push({ ...location, column: columnName, value: value, ...cellError, ...(fix && { fix }) })
+            })
+        })
+
+        // Combined timestamps need both parts; cells that already failed are not reported again
+        combinations.forEach(({ combination, formats }) => {
+            if (getCombinedValue(row, combination, formats) !== null) return
+
+            const parts = [
+                { columnName: combination.dateColumn, readable: toDateValue(row[combination.dateColumn], formats.date) !== null },
+                { columnName: combination.timeColumn, readable: toTimeValue(row[combination.timeColumn], formats.time) !== null },
+            ]
+            const isEmpty = (columnName: string) => {
+                const value = row[columnName]
+                return value === undefined || value === null || value === ""
+            }
+            if (parts.every(({ columnName }) => isEmpty(columnName))) return
+
+            parts.forEach(({ columnName, readable }) => {
+                const reported = errors.some((error) => isErrorAtLocation(error, location) && error.column === columnName)
+                if (readable || reported) return
                 errors.push({
-                    row: rowIndex + 2,
+                    ...location,
                     column: columnName,
-                    value: value,
-                    message: typeError.message,
-                    type: typeError.type,
-                    suggestion: typeError.suggestion,
+                    value: row[columnName],
+                    message: `"${combination.outputColumn}" cannot be built without a valid ${columnName === combination.dateColumn ? "date" : "time"}`,
+                    type: isEmpty(columnName) ? "missing" : "format",
+                    suggestion: "Enter both a date and a time, or neither",
                 })
-            }
+            })
+        })
 
-            // Format validation if a specific format is defined
-            if (column.format && value !== undefined && value !== null && value !== "") {
-                const formatError = validateFormat(value, column.type, column.format)
-                if (formatError) {
-                    errors.push({
-                        row: rowIndex + 2,
-                        column: columnName,
-                        value: value,
-                        message: formatError.message,
-                        type: "format",
-                        suggestion: formatError.suggestion,
-                    })
-                }
-            }
+        // Row rules that compare several columns; the error is reported on each involved column
+        config.rowRules.forEach((rule) => {
+            if (rule.when && !evaluateRowCondition(row, rule.when, typeConfigFor(rule.when.column))) return
+            if (evaluateRowCondition(row, rule.check, typeConfigFor(rule.check.column))) return
 
-            // Custom validation rules
-            column.validationRules.forEach((rule) => {
-                const validationResult = validateRule(value, rule, column.type, config.dataTypeConfig)
-                if (!validationResult.valid) {
-                    errors.push({
-                        row: rowIndex + 2,
-                        column: columnName,
-                        value: value,
-                        message: rule.message || validationResult.message,
-                        type: validationResult.type,
-                        suggestion: validationResult.suggestion,
-                    })
-                }
+            const message = rule.message || getRowRuleMessage(rule)
+            getRowRuleColumns(rule).forEach((columnName) => {
+                errors.push({
+                    ...location,
+                    column: columnName,
+                    value: row[columnName],
+                    message,
+                    type: "invalid",
+                    suggestion: `Make sure ${describeRowCondition(rule.check)}`,
+                    severity: rule.severity || "error",
+                })
             })
         })
     })
 
+    onProgress?.(data.length, data.length)
+
+    errors.push(...findDuplicateErrors(data, config, headerRow))
+
+    return buildValidationResult(errors, config)
+}
+
+type CellError = Pick<ValidationError, "message" | "type" | "suggestion" | "severity">
+
+/**
+ * Type, format and rule errors of one cell
+ */
+function validateCell(
+    value: unknown,
+    column: ColumnConfig,
+    typeConfig: DataTypeConfig,
+    row: Record<string, unknown>,
+    lookupValues?: Record<string, string[]>,
+): CellError[] {
+    const cellErrors: CellError[] = []
+
+    // Type validation
+    const typeError = validateType(value, column.type, typeConfig)
+    if (typeError) {
+        cellErrors.push({
+            message: typeError.message,
+            type: typeError.type,
+            suggestion: typeError.suggestion,
+            severity: typeError.severity || column.typeSeverity || "error",
+        })
+    }
+
+    // Format validation if a specific format is defined
+    if (column.format && value !== undefined && value !== null && value !== "") {
+        const formatError = validateFormat(value, column.type, column.format, typeConfig)
+        if (formatError) {
+            cellErrors.push({
+                message: formatError.message,
+                type: "format",
+                suggestion: formatError.suggestion,
+                severity: column.typeSeverity || "error",
+            })
+        }
+    }
+
+    // Custom validation rules
+    column.validationRules.forEach((rule) => {
+        const validationResult = validateRule(value, rule, column.type, typeConfig, row, lookupValues)
+        if (!validationResult.valid) {
+            cellErrors.push({
+                message: rule.message || validationResult.message,
+                type: validationResult.type,
+                suggestion: validationResult.suggestion,
+                severity: rule.severity || "error",
+            })
+        }
+    })
+
+    return cellErrors
+}
+
+/**
+ * First fix candidate for a failing cell that passes all of its checks
+ */
+function findAutoFix(
+    value: unknown,
+    column: ColumnConfig,
+    typeConfig: DataTypeConfig,
+    row: Record<string, unknown>,
+    rowIndex: number,
+    lookupValues: Record<string, string[]> = {},
+): AutoFix | undefined {
+    // Enum and lookup values the cell may differ from only in case
+    const allowedValues = column.validationRules.flatMap((rule) => {
+        if (rule.type === "enum") return getAllowedValues(rule).map(String)
+        if (rule.type === "lookup") return lookupValues[String(rule.value)] || []
+        return []
+    })
+
+    const candidate = getFixCandidates(value, column, typeConfig, allowedValues).find(
+        (candidate) =>
+            validateCell(candidate.value, column, typeConfig, { ...row, [column.name]: candidate.value }, lookupValues)
+                .length === 0,
+    )
+    return candidate && { ...candidate, rowIndex }
+}
+
+/**
+ * Severity of an error; errors created without one are blocking
+ */
+export function getErrorSeverity(error: ValidationError): ValidationSeverity {
+    return error.severity || "error"
+}
+
+/**
+ * Group errors into a validation result. Only errors block the import;
+ * warnings, info and duplicates that are dropped on import do not.
+ */
+export function buildValidationResult(errors: ValidationError[], config: ImporterConfig): ValidationResult {
     // Group errors by type
     const errorsByType = {
         missing: errors.filter((e) => e.type === "missing"),
@@ -150,10 +341,292 @@ export function validateData(data: any[], config: ImporterConfig): ValidationRes
         other: errors.filter((e) => e.type === "other"),
     }
 
+    const errorsBySeverity = {
+        error: errors.filter((e) => getErrorSeverity(e) === "error"),
+        warning: errors.filter((e) => getErrorSeverity(e) === "warning"),
+        info: errors.filter((e) => getErrorSeverity(e) === "info"),
+    }
+
+    const blocking = errorsBySeverity.error.filter(
+        (error) => !error.duplicateOf || config.duplicateHandling === "flagAll",
+    )
+
     return {
-        valid: errors.length === 0,
+        valid: blocking.length === 0,
         errors,
         errorsByType,
+        errorsBySeverity,
+    }
+}
+
+/**
+ * Rows that share a unique key or repeat another row entirely
+ */
+interface DuplicateGroup {
+    // Indices into the data, in row order
+    indices: number[]
+    // Key columns, or null for rows that repeat in every column
+    columns: string[] | null
+    message?: string
+}
+
+/**
+ * Group rows by a key built from their values. Rows whose key is null are skipped.
+ */
+function groupRowsByKey(data: Record<string, unknown>[], getKey: (row: Record<string, unknown>) => string | null): number[][] {
+    const groups = new Map<string, number[]>()
+    data.forEach((row, index) => {
+        const key = getKey(row)
+        if (key === null) return
+        groups.set(key, [...(groups.get(key) || []), index])
+    })
+    return [...groups.values()].filter((indices) => indices.length > 1)
+}
+
+/**
+ * Find rows that repeat a configured unique key (compared trimmed and
+ * case-insensitive) and, when enabled, rows that repeat another row exactly
+ */
+function findDuplicateGroups(data: Record<string, unknown>[], config: ImporterConfig): DuplicateGroup[] {
+    const groups: DuplicateGroup[] = []
+
+    config.uniqueKeys.forEach((uniqueKey) => {
+        if (uniqueKey.columns.length === 0) return
+
+        groupRowsByKey(data, (row) => {
+            const values = uniqueKey.columns.map((column) => toComparableText(row[column]))
+            // Rows without any key value are left to the required checks
+            return values.every((value) => value === "") ? null : JSON.stringify(values)
+        }).forEach((indices) => groups.push({ indices, columns: uniqueKey.columns, message: uniqueKey.message }))
+    })
+
+    if (config.detectDuplicateRows) {
+        groupRowsByKey(data, (row) =>
+            JSON.stringify(
+                Object.entries(row).map(([column, value]) => [column, value instanceof Date ? value.getTime() : value]),
+            ),
+        ).forEach((indices) => groups.push({ indices, columns: null }))
+    }
+
+    return groups
+}
+
+/**
+ * Position in a duplicate group of the occurrence that is imported: the last
+ * with "keepLast", otherwise the first
+ */
+function getKeptPosition(indices: number[], duplicateHandling: ImporterConfig["duplicateHandling"]): number {
+    return duplicateHandling === "keepLast" ? indices.length - 1 : 0
+}
+
+/**
+ * Report every occurrence of a duplicate except the one that is imported,
+ * pointing to that occurrence. With "flagAll" the kept occurrence is reported too.
+ */
+function findDuplicateErrors(data: Record<string, unknown>[], config: ImporterConfig, headerRow: number): ValidationError[] {
+    const errors: ValidationError[] = []
+    const suggestions = {
+        keepFirst: "Only the first occurrence will be imported",
+        keepLast: "Only the last occurrence will be imported",
+        flagAll: "Remove the repeated rows or change their key values",
+    }
+
+    findDuplicateGroups(data, config).forEach(({ indices, columns, message }) => {
+        const locations = indices.map((index) => getRowLocation(data[index], index, headerRow))
+        const describeRow = (location: { row: number; sheet?: string }) =>
+            location.sheet ? `row ${location.row} of "${location.sheet}"` : `row ${location.row}`
+        const column = columns ? columns.join(" + ") : "(entire row)"
+        const subject = columns ? `same ${columns.map((name) => `"${name}"`).join(", ")}` : "same values in every column"
+        const valueOf = (index: number) => (columns ? columns.map((name) => data[index][name]).join(" / ") : "")
+
+        const keptPosition = getKeptPosition(indices, config.duplicateHandling)
+        const kept = locations[keptPosition]
+        const others = locations.filter((_, position) => position !== keptPosition)
+
+        if (config.duplicateHandling === "flagAll") {
+            errors.push({
+                ...kept,
+                column,
+                value: valueOf(indices[keptPosition]),
+                message: `${message || "Repeated"} in ${others.map(describeRow).join(", ")} (${subject})`,
+                type: "invalid",
+                suggestion: suggestions.flagAll,
+            })
+        }
+
+        locations.forEach((location, position) => {
+            if (position === keptPosition) return
+            errors.push({
+                ...location,
+                column,
+                value: valueOf(indices[position]),
+                message: `${message || "Duplicate"} of ${describeRow(kept)} (${subject})`,
+                type: "invalid",
+                suggestion: suggestions[config.duplicateHandling],
+                duplicateOf: kept,
+            })
+        })
+    })
+
+    return errors
+}
+
+/**
+ * Drop duplicate rows according to the duplicate handling setting, keeping
+ * the first or last occurrence. With "flagAll" the data is returned unchanged.
+ */
+export function removeDuplicateRows<T extends Record<string, unknown>>(data: T[], config: ImporterConfig): T[] {
+    if (config.duplicateHandling === "flagAll") return data
+
+    const dropped = new Set<number>()
+    findDuplicateGroups(data, config).forEach(({ indices }) => {
+        const kept = indices[getKeptPosition(indices, config.duplicateHandling)]
+        indices.forEach((index) => {
+            if (index !== kept) dropped.add(index)
+        })
+    })
+
+    return data.filter((_, index) => !dropped.has(index))
+}
+
+/**
+ * Text used to compare values in row rules: trimmed, case-insensitive, dates as displayed
+ */
+function toComparableText(value: unknown): string {
+    if (value === undefined || value === null) return ""
+    return (value instanceof Date ? formatDateValue(value) : String(value)).trim().toLowerCase()
+}
+
+/**
+ * Checks a cell against the configured true or false values
+ */
+function matchesBoolean(value: unknown, expected: boolean, typeConfig: DataTypeConfig): boolean {
+    if (typeof value === "boolean") return value === expected
+    if (typeof value === "number") return value === (expected ? 1 : 0)
+
+    const { trueValues, falseValues, caseSensitive } = typeConfig.boolean
+    const text = String(value ?? "").trim()
+    return (expected ? trueValues : falseValues).some((candidate) =>
+        caseSensitive ? candidate === text : candidate.toLowerCase() === text.toLowerCase(),
+    )
+}
+
+/**
+ * Checks whether a row satisfies a row rule condition. Column comparisons
+ * pass when either cell is empty; emptiness is checked by "required" and "notEmpty".
+ */
+export function evaluateRowCondition(
+    row: Record<string, unknown>,
+    condition: RowCondition,
+    typeConfig: DataTypeConfig,
+): boolean {
+    const text = toComparableText(row[condition.column])
+    const otherText = toComparableText(condition.otherColumn ? row[condition.otherColumn] : undefined)
+
+    switch (condition.operator) {
+        case "equals":
+            return text === toComparableText(condition.value)
+        case "notEquals":
+            return text !== toComparableText(condition.value)
+        case "empty":
+            return text === ""
+        case "notEmpty":
+            return text !== ""
+        case "isTrue":
+            return matchesBoolean(row[condition.column], true, typeConfig)
+        case "isFalse":
+            return matchesBoolean(row[condition.column], false, typeConfig)
+        case "equalsColumn":
+            return text === "" || otherText === "" || text === otherText
+        case "notEqualsColumn":
+            return text === "" || otherText === "" || text !== otherText
+        default:
+            return true
+    }
+}
+
+/**
+ * Columns a row rule reads, in the order they appear in the rule
+ */
+export function getRowRuleColumns(rule: RowRule): string[] {
+    const columns = [rule.when?.column, rule.when?.otherColumn, rule.check.column, rule.check.otherColumn]
+    return [...new Set(columns.filter((column): column is string => !!column))]
+}
+
+/**
+ * Describe a row rule condition in words, e.g. "customer_type" is "corporate"
+ */
+export function describeRowCondition(condition: RowCondition): string {
+    const column = `"${condition.column}"`
+    const otherColumn = `"${condition.otherColumn || ""}"`
+
+    switch (condition.operator) {
+        case "equals":
+            return `${column} is "${condition.value ?? ""}"`
+        case "notEquals":
+            return `${column} is not "${condition.value ?? ""}"`
+        case "empty":
+            return `${column} is empty`
+        case "notEmpty":
+            return `${column} is not empty`
+        case "isTrue":
+            return `${column} is true`
+        case "isFalse":
+            return `${column} is false`
+        case "equalsColumn":
+            return `${column} matches ${otherColumn}`
+        case "notEqualsColumn":
+            return `${column} differs from ${otherColumn}`
+        default:
+            return column
+    }
+}
+
+/**
+ * Default error message for a row rule without a custom message
+ */
+export function getRowRuleMessage(rule: RowRule): string {
+    const expected = `Rule not met: ${describeRowCondition(rule.check)}`
+    return rule.when ? `${expected} when ${describeRowCondition(rule.when)}` : expected
+}
+
+function mergeDefined<T extends object>(base: T, overrides: Partial<T> | undefined): T {
+    const defined = Object.entries(overrides || {}).filter(([, value]) => value !== undefined)
+    return defined.length > 0 ? { ...base, ...Object.fromEntries(defined) } : base
+}
+
+/**
+ * Type settings for a column: its own overrides on top of the global settings
+ */
+export function getColumnTypeConfig(column: ColumnConfig, dataTypeConfig: DataTypeConfig): DataTypeConfig {
+    const overrides = column.typeConfig
+    if (!overrides) return dataTypeConfig
+
+    return {
+        string: mergeDefined(dataTypeConfig.string, overrides.string),
+        number: mergeDefined(dataTypeConfig.number, overrides.number),
+        date: mergeDefined(dataTypeConfig.date, overrides.date),
+        time: mergeDefined(dataTypeConfig.time, overrides.time),
+        datetime: mergeDefined(dataTypeConfig.datetime, overrides.datetime),
+        boolean: mergeDefined(dataTypeConfig.boolean, overrides.boolean),
+        email: mergeDefined(dataTypeConfig.email, overrides.email),
+        phone: mergeDefined(dataTypeConfig.phone, overrides.phone),
+    }
+}
+
+/**
+ * Error for text that reads as different dates or times depending on the format
+ */
+function getAmbiguousDateError(
+    value: string,
+    candidates: DateCandidate[],
+    formatCandidate: (date: Date) => string,
+): { message: string; type: "format"; suggestion: string } {
+    const readings = candidates.map((candidate) => `${formatCandidate(candidate.date)} (${candidate.format})`)
+    return {
+        message: `"${value}" is ambiguous: it could be ${readings.join(" or ")}`,
+        type: "format",
+        suggestion: `Write it as ${formatCandidate(candidates[0].date)} so it cannot be read another way`,
     }
 }
 
@@ -164,17 +637,17 @@ function validateType(
     value: any,
     type: string,
     typeConfig: DataTypeConfig,
-): { message: string; type: "format" | "invalid" | "other"; suggestion: string } | null {
+): { message: string; type: "format" | "invalid" | "other"; suggestion: string; severity?: ValidationSeverity } | null {
     if (value === undefined || value === null || value === "") {
         return null // Empty values are handled by required check
     }
 
-    // Temporary convert value to string for type checking 
-    value = String(value);
+    // Text form of the value for text-based checks; typed checks use the value itself
+    const text = value instanceof Date ? formatDateValue(value) : String(value)
 
     switch (type) {
         case "string":
-            if (typeof value !== "string") {
+            if (typeof value === "object" && !(value instanceof Date)) {
                 return {
                     message: `Value must be text, got ${typeof value}`,
                     type: "format",
@@ -182,24 +655,22 @@ function validateType(
                 }
             }
 
-            // Check string length constraints
-            if (typeof value === "string") {
-                const { minLength, maxLength } = typeConfig.string
+            // Check string length constraints on the text form, so numbers and dates count too
+            const { minLength, maxLength } = typeConfig.string
 
-                if (minLength > 0 && value.length < minLength) {
-                    return {
-                        message: `Text is too short (minimum ${minLength} characters)`,
-                        type: "invalid",
-                        suggestion: `Enter at least ${minLength} characters`,
-                    }
+            if (minLength > 0 && text.length < minLength) {
+                return {
+                    message: `Text is too short (minimum ${minLength} characters)`,
+                    type: "invalid",
+                    suggestion: `Enter at least ${minLength} characters`,
                 }
+            }
 
-                if (maxLength > 0 && value.length > maxLength) {
-                    return {
-                        message: `Text is too long (maximum ${maxLength} characters)`,
-                        type: "invalid",
-                        suggestion: `Enter no more than ${maxLength} characters`,
-                    }
+            if (maxLength > 0 && text.length > maxLength) {
+                return {
+                    message: `Text is too long (maximum ${maxLength} characters)`,
+                    type: "invalid",
+                    suggestion: `Enter no more than ${maxLength} characters`,
                 }
             }
             break
@@ -210,16 +681,16 @@ function validateType(
             if (typeof value === "number") {
                 numValue = value
             } else if (typeof value === "string") {
-                // Try to convert string to number
-                const parsed = Number.parseFloat(value)
-                if (isNaN(parsed)) {
+                // Read with the configured separators, currency symbols and percent sign
+                const parsed = parseLocaleNumber(value, typeConfig.number)
+                if (!parsed) {
                     return {
                         message: `Value must be a number, got "${value}"`,
                         type: "format",
-                        suggestion: "Enter a numeric value",
+                        suggestion: `Enter a numeric value such as ${formatNumberExample(typeConfig.number)}`,
                     }
                 }
-                numValue = parsed
+                numValue = parsed.value
             } else {
                 return {
                     message: `Value must be a number, got ${typeof value}`,
@@ -258,25 +729,47 @@ function validateType(
 
         case "date":
             let dateValue: Date
+            const { inputFormats } = typeConfig.date
+            const dateSuggestion = `Enter a date as ${describeDateFormats(inputFormats)}`
 
             if (value instanceof Date) {
+                if (isNaN(value.getTime())) {
+                    return {
+                        message: `Value must be a valid date`,
+                        type: "format",
+                        suggestion: dateSuggestion,
+                    }
+                }
                 dateValue = value
+            } else if (typeof value === "number") {
+                // A plain number in a date column is taken as an Excel serial date
+                const date = excelSerialToDate(value)
+                if (!date) {
+                    return {
+                        message: `Value must be a valid date, got ${value}`,
+                        type: "format",
+                        suggestion: dateSuggestion,
+                    }
+                }
+                dateValue = date
             } else if (typeof value === "string") {
-                // Try to parse date string
-                const date = new Date(value)
-                if (isNaN(date.getTime())) {
+                const parsed = parseDateInput(value, inputFormats)
+                if (parsed.status === "ambiguous") {
+                    return getAmbiguousDateError(value, parsed.candidates, formatDateValue)
+                }
+                if (parsed.status === "invalid") {
                     return {
                         message: `Value must be a valid date, got "${value}"`,
                         type: "format",
-                        suggestion: `Enter a date in ${typeConfig.date.format || "YYYY-MM-DD"} format`,
+                        suggestion: dateSuggestion,
                     }
                 }
-                dateValue = date
+                dateValue = parsed.date
             } else {
                 return {
                     message: `Value must be a date, got ${typeof value}`,
                     type: "format",
-                    suggestion: `Enter a date in ${typeConfig.date.format || "YYYY-MM-DD"} format`,
+                    suggestion: dateSuggestion,
                 }
             }
 
@@ -284,7 +777,7 @@ function validateType(
             const { min: minDate, max: maxDate } = typeConfig.date
 
             if (minDate) {
-                const minDateValue = new Date(minDate)
+                const minDateValue = parseISO(minDate)
                 if (dateValue < minDateValue) {
                     return {
                         message: `Date is too early (minimum ${minDate})`,
@@ -295,7 +788,7 @@ function validateType(
             }
 
             if (maxDate) {
-                const maxDateValue = new Date(maxDate)
+                const maxDateValue = parseISO(maxDate)
                 if (dateValue > maxDateValue) {
                     return {
                         message: `Date is too late (maximum ${maxDate})`,
@@ -306,6 +799,90 @@ function validateType(
             }
             break
 
+        case "time": {
+            const timeSuggestion = `Enter a time as ${describeDateFormats(typeConfig.time.inputFormats, "time")}`
+            let seconds: number | null
+
+            if (typeof value === "string") {
+                const parsed = parseTimeInput(value, typeConfig.time.inputFormats)
+                if (parsed.status === "ambiguous") {
+                    return getAmbiguousDateError(value, parsed.candidates, (date) => formatTimeValue(toTimeValue(date) ?? 0))
+                }
+                seconds = parsed.status === "valid" ? toTimeValue(parsed.date) : null
+            } else {
+                seconds = toTimeValue(value)
+            }
+
+            if (seconds === null) {
+                return {
+                    message: `Value must be a valid time, got ${typeof value === "string" ? `"${value}"` : text}`,
+                    type: "format",
+                    suggestion: timeSuggestion,
+                }
+            }
+
+            const minTime = typeConfig.time.min ? toTimeValue(typeConfig.time.min) : null
+            if (minTime !== null && seconds < minTime) {
+                return {
+                    message: `Time is too early (earliest ${typeConfig.time.min})`,
+                    type: "invalid",
+                    suggestion: `Enter a time at or after ${typeConfig.time.min}`,
+                }
+            }
+
+            const maxTime = typeConfig.time.max ? toTimeValue(typeConfig.time.max) : null
+            if (maxTime !== null && seconds > maxTime) {
+                return {
+                    message: `Time is too late (latest ${typeConfig.time.max})`,
+                    type: "invalid",
+                    suggestion: `Enter a time at or before ${typeConfig.time.max}`,
+                }
+            }
+            break
+        }
+
+        case "datetime": {
+            const dateTimeSuggestion = `Enter a date and time as ${describeDateFormats(typeConfig.datetime.inputFormats, "datetime")}`
+            let timestamp: Date | null
+
+            if (typeof value === "string") {
+                const parsed = parseDateTimeInput(value, typeConfig.datetime.inputFormats)
+                if (parsed.status === "ambiguous") {
+                    return getAmbiguousDateError(value, parsed.candidates, formatDateValue)
+                }
+                timestamp = parsed.status === "valid" ? parsed.date : null
+            } else {
+                timestamp = toDateTimeValue(value)
+            }
+
+            if (!timestamp) {
+                return {
+                    message: `Value must be a valid date and time, got ${typeof value === "string" ? `"${value}"` : text}`,
+                    type: "format",
+                    suggestion: dateTimeSuggestion,
+                }
+            }
+
+            const minDateTime = typeConfig.datetime.min ? toDateTimeValue(typeConfig.datetime.min) : null
+            if (minDateTime && timestamp < minDateTime) {
+                return {
+                    message: `Date and time is too early (minimum ${typeConfig.datetime.min})`,
+                    type: "invalid",
+                    suggestion: `Enter a date and time on or after ${typeConfig.datetime.min}`,
+                }
+            }
+
+            const maxDateTime = typeConfig.datetime.max ? toDateTimeValue(typeConfig.datetime.max) : null
+            if (maxDateTime && timestamp > maxDateTime) {
+                return {
+                    message: `Date and time is too late (maximum ${typeConfig.datetime.max})`,
+                    type: "invalid",
+                    suggestion: `Enter a date and time on or before ${typeConfig.datetime.max}`,
+                }
+            }
+            break
+        }
+
         case "boolean":
             const { trueValues, falseValues, caseSensitive } = typeConfig.boolean
 
@@ -314,8 +891,8 @@ function validateType(
                 break
             }
 
-            if (typeof value === "string") {
-                const strValue = caseSensitive ? value : value.toLowerCase()
+            if (typeof value === "string" || typeof value === "number") {
+                const strValue = caseSensitive ? text : text.toLowerCase()
                 const normalizedTrueValues = caseSensitive ? trueValues : trueValues.map((v) => v.toLowerCase())
                 const normalizedFalseValues = caseSensitive ? falseValues : falseValues.map((v) => v.toLowerCase())
 
@@ -365,6 +942,7 @@ function validateType(
                         message: `Email domain not allowed`,
                         type: "invalid",
                         suggestion: `Use an email with one of these domains: ${typeConfig.email.allowedDomains.join(", ")}`,
+                        severity: typeConfig.email.domainSeverity,
                     }
                 }
             }
@@ -380,11 +958,10 @@ function validateType(
             }
 
             const phoneStr = String(value)
+            const { pattern, defaultCountry, allowInternational } = typeConfig.phone
 
-            // Check phone format
-            const phonePattern = typeConfig.phone.pattern ? new RegExp(typeConfig.phone.pattern) : /^[\d+\-$$$$ ]{7,20}$/
-
-            if (!phonePattern.test(phoneStr)) {
+            // An optional pattern narrows down the numbers accepted
+            if (pattern && !new RegExp(pattern).test(phoneStr)) {
                 return {
                     message: `Invalid phone number format`,
                     type: "format",
@@ -394,12 +971,24 @@ function validateType(
                 }
             }
 
-            // Check international format if not allowed
-            if (!typeConfig.phone.allowInternational && phoneStr.includes("+")) {
+            const parsedPhone = parsePhoneNumber(phoneStr, defaultCountry)
+            const phoneCountry = getPhoneCountry(defaultCountry)
+            if (parsedPhone.status === "invalid") {
+                return {
+                    message: phoneCountry
+                        ? `"${phoneStr}" is not a valid ${phoneCountry.name} phone number`
+                        : `"${phoneStr}" is not a valid international phone number`,
+                    type: "format",
+                    suggestion: getPhoneSuggestion(parsedPhone.candidates, defaultCountry),
+                }
+            }
+
+            // Check international numbers if not allowed
+            if (!allowInternational && phoneCountry && parsedPhone.callingCode !== phoneCountry.callingCode) {
                 return {
                     message: `International phone numbers not allowed`,
                     type: "invalid",
-                    suggestion: "Enter a local phone number without country code",
+                    suggestion: `Enter a ${phoneCountry.name} phone number`,
                 }
             }
             break
@@ -411,7 +1000,12 @@ function validateType(
 /**
  * Validates a value against a specific format
  */
-function validateFormat(value: any, type: string, format: string): { message: string; suggestion: string } | null {
+function validateFormat(
+    value: any,
+    type: string,
+    format: string,
+    typeConfig: DataTypeConfig,
+): { message: string; suggestion: string } | null {
     if (!format || value === undefined || value === null || value === "") {
         return null
     }
@@ -435,19 +1029,70 @@ function validateFormat(value: any, type: string, format: string): { message: st
             break
 
         case "date":
-            // Date format validation would require a more complex implementation
-            // with date-fns or similar library to validate against specific formats
+            // Text dates are parsed strictly against the column's input formats in validateType
             break
 
-        case "number":
-            // Number format validation would require a more complex implementation
-            // to validate against specific number formats like "#,###.##"
+        case "number": {
+            const reason = getNumberFormatError(value, format, typeConfig.number)
+            if (reason) {
+                return {
+                    message: `Number ${reason} (format ${format})`,
+                    suggestion: `Enter a number like ${formatCellValue(format.includes("%") ? 0.125 : 1234.5, format)}`,
+                }
+            }
             break
+        }
     }
 
     return null
 }
 
+/**
+ * Allowed values of an enum rule, given either as an array or a comma-separated list
+ */
+export function getAllowedValues(rule: { value?: unknown }): unknown[] {
+    if (Array.isArray(rule.value)) return rule.value
+    if (rule.value === undefined || rule.value === null || rule.value === "") return []
+    return String(rule.value)
+        .split(",")
+        .map((v) => v.trim())
+}
+
+// Column types whose min, max and range rules compare points in time
+const TEMPORAL_TYPES = ["date", "time", "datetime"]
+
+/**
+ * Comparable number for a date, time or datetime value or rule bound:
+ * a timestamp for dates, seconds since midnight for times
+ */
+function toTemporalValue(value: unknown, columnType: string, typeConfig: DataTypeConfig): number | null {
+    switch (columnType) {
+        case "date":
+            return toDateValue(value, typeConfig.date.inputFormats)?.getTime() ?? null
+        case "datetime":
+            return toDateTimeValue(value, typeConfig.datetime.inputFormats)?.getTime() ?? null
+        case "time":
+            return toTimeValue(value, typeConfig.time.inputFormats)
+        default:
+            return null
+    }
+}
+
+/**
+ * Split a range rule value into its bounds: "a..b", "a - b" or "a to b", or a
+ * single dash for bounds without dashes of their own such as 09:00-17:00
+ */
+function getRangeBounds(value: unknown): [string, string] | null {
+    if (Array.isArray(value) && value.length === 2) return [String(value[0]), String(value[1])]
+
+    const text = String(value ?? "")
+    for (const separator of ["..", " - ", " to ", "-"]) {
+        const parts = text.split(separator)
+        if (parts.length === 2) return [parts[0].trim(), parts[1].trim()]
+    }
+    return null
+}
+
 /**
  * Validates a value against a validation rule
  */
@@ -456,15 +1101,56 @@ function validateRule(
     rule: { type: string; value?: any; message: string },
     columnType: string,
     typeConfig: DataTypeConfig,
+    row: Record<string, unknown> = {},
+    lookupValues: Record<string, string[]> = {},
 ): { valid: boolean; message: string; type: "format" | "invalid" | "other"; suggestion: string } {
     // Skip validation for empty values (handled by required check)
     if (value === undefined || value === null || value === "") {
         return { valid: true, message: "", type: "other", suggestion: "" }
     }
 
+    // Rules on number columns see text numbers such as "1.234,50" as the numbers they denote
+    if (columnType === "number" && typeof value === "string") {
+        value = toNumberValue(value, typeConfig.number) ?? value
+    }
+
     switch (rule.type) {
+        case "custom":
+            // The rule value is an expression over value and row, see expression-utils
+            if (typeof rule.value === "string" && rule.value.trim() !== "") {
+                try {
+                    if (!evaluateExpression(rule.value, { value, row })) {
+                        return {
+                            valid: false,
+                            message: rule.message || `Value does not satisfy ${rule.value}`,
+                            type: "invalid",
+                            suggestion: `Enter a value for which ${rule.value} holds`,
+                        }
+                    }
+                } catch (error) {
+                    return {
+                        valid: false,
+                        message: `Custom rule could not be checked: ${error instanceof Error ? error.message : String(error)}`,
+                        type: "other",
+                        suggestion: "Fix the custom rule expression in the import settings",
+                    }
+                }
+            }
+            break
+
         case "min":
-            if (columnType === "number" && typeof value === "number") {
+            if (TEMPORAL_TYPES.includes(columnType)) {
+                const actual = toTemporalValue(value, columnType, typeConfig)
+                const bound = toTemporalValue(rule.value, columnType, typeConfig)
+                if (actual !== null && bound !== null && actual < bound) {
+                    return {
+                        valid: false,
+                        message: `Value must be ${rule.value} or later`,
+                        type: "invalid",
+                        suggestion: `Enter a value on or after ${rule.value}`,
+                    }
+                }
+            } else if (columnType === "number" && typeof value === "number") {
                 if (value < rule.value) {
                     return {
                         valid: false,
@@ -473,7 +1159,7 @@ function validateRule(
                         suggestion: `Enter a value of at least ${rule.value}`,
                     }
                 }
-            } else if (typeof value === "string") {
+            } else if (columnType !== "number" && typeof value === "string") {
                 if (value.length < rule.value) {
                     return {
                         valid: false,
@@ -486,7 +1172,18 @@ function validateRule(
             break
 
         case "max":
-            if (columnType === "number" && typeof value === "number") {
+            if (TEMPORAL_TYPES.includes(columnType)) {
+                const actual = toTemporalValue(value, columnType, typeConfig)
+                const bound = toTemporalValue(rule.value, columnType, typeConfig)
+                if (actual !== null && bound !== null && actual > bound) {
+                    return {
+                        valid: false,
+                        message: `Value must be ${rule.value} or earlier`,
+                        type: "invalid",
+                        suggestion: `Enter a value on or before ${rule.value}`,
+                    }
+                }
+            } else if (columnType === "number" && typeof value === "number") {
                 if (value > rule.value) {
                     return {
                         valid: false,
@@ -495,7 +1192,7 @@ function validateRule(
                         suggestion: `Enter a value no greater than ${rule.value}`,
                     }
                 }
-            } else if (typeof value === "string") {
+            } else if (columnType !== "number" && typeof value === "string") {
                 if (value.length > rule.value) {
                     return {
                         valid: false,
@@ -528,11 +1225,7 @@ function validateRule(
 
         case "enum":
             if (rule.value) {
-                const allowedValues = Array.isArray(rule.value)
-                    ? rule.value
-                    : String(rule.value)
-                        .split(",")
-                        .map((v) => v.trim())
+                const allowedValues = getAllowedValues(rule)
 
                 if (!allowedValues.includes(value)) {
                     return {
@@ -545,6 +1238,41 @@ function validateRule(
             }
             break
 
+        case "remote":
+            // Needs the network, so it runs after local validation, see remote-validation
+            break
+
+        case "lookup": {
+            // The rule value names a lookup table; its values are attached to the config before validation
+            const tableName = String(rule.value || "")
+            if (!tableName) break
+
+            const values = lookupValues[tableName]
+            if (!values) {
+                return {
+                    valid: false,
+                    message: `Lookup table "${tableName}" is not loaded`,
+                    type: "other",
+                    suggestion: "Load the table under Lookup Tables in the import configuration",
+                }
+            }
+
+            const text = String(value).trim()
+            if (!isLookupValue(text, values)) {
+                const similar = findSimilarValues(text, values)
+                return {
+                    valid: false,
+                    message: rule.message || `"${text}" is not in ${tableName}`,
+                    type: "invalid",
+                    suggestion:
+                        similar.length > 0
+                            ? `Did you mean ${similar.map((v) => `"${v}"`).join(" or ")}?`
+                            : `Choose a value from ${tableName}`,
+                }
+            }
+            break
+        }
+
         case "range":
             if (columnType === "number" && typeof value === "number") {
                 const [min, max] = String(rule.value).split("-").map(Number)
@@ -556,18 +1284,23 @@ function validateRule(
                         suggestion: `Enter a value between ${min} and ${max}`,
                     }
                 }
-            } else if (columnType === "date") {
-                const [minStr, maxStr] = String(rule.value).split("-")
-                const date = new Date(value)
-                const minDate = new Date(minStr)
-                const maxDate = new Date(maxStr)
-
-                if (date < minDate || date > maxDate) {
-                    return {
-                        valid: false,
-                        message: rule.message || `Date must be between ${minStr} and ${maxStr}`,
-                        type: "invalid",
-                        suggestion: `Enter a date between ${minStr} and ${maxStr}`,
+            } else if (TEMPORAL_TYPES.includes(columnType)) {
+                // Unparseable values and bounds are left to the type check
+                const bounds = getRangeBounds(rule.value)
+                const actual = toTemporalValue(value, columnType, typeConfig)
+                const min = bounds && toTemporalValue(bounds[0], columnType, typeConfig)
+                const max = bounds && toTemporalValue(bounds[1], columnType, typeConfig)
+
+                if (bounds && actual !== null && min !== null && max !== null) {
+                    // A time range such as 22:00-06:00 runs past midnight
+                    const inRange = min <= max ? actual >= min && actual <= max : actual >= min || actual <= max
+                    if (!inRange) {
+                        return {
+                            valid: false,
+                            message: rule.message || `Value must be between ${bounds[0]} and ${bounds[1]}`,
+                            type: "invalid",
+                            suggestion: `Enter a value between ${bounds[0]} and ${bounds[1]}`,
+                        }
                     }
                 }
             }
@@ -666,14 +1399,36 @@ export function validateFile(
     }
 }
 
+/**
+ * Gets the sheet and user-facing row number for a data row.
+ * Rows without a source tag are counted from the header row (1-indexed for users).
+ */
+export function getRowLocation(
+    row: object | undefined,
+    rowIndex: number,
+    headerRow: number = 1,
+): { row: number; sheet?: string } {
+    const source = getRowSource(row)
+    if (source) {
+        return { row: source.row, sheet: source.sheet }
+    }
+    return { row: rowIndex + headerRow + 1 }
+}
+
+/**
+ * Checks whether an error belongs to the given row location
+ */
+function isErrorAtLocation(error: ValidationError, location: { row: number; sheet?: string }): boolean {
+    return error.row === location.row && (!location.sheet || !error.sheet || error.sheet === location.sheet)
+}
+
 /**
  * Gets row highlight class based on validation errors
  */
-export function getRowHighlightClass(rowIndex: number, errors: ValidationError[]): string {
-    // Add 2 because row 0 is headers and we're 1-indexing for users
-    const displayRowIndex = rowIndex + 2
+export function getRowHighlightClass(rowIndex: number, errors: ValidationError[], row?: object): string {
+    const location = getRowLocation(row, rowIndex)
 
-    const hasError = errors.some((error) => error.row === displayRowIndex)
+    const hasError = errors.some((error) => isErrorAtLocation(error, location))
 
     return hasError ? "bg-red-50 dark:bg-red-900/20" : ""
 }
@@ -681,11 +1436,15 @@ export function getRowHighlightClass(rowIndex: number, errors: ValidationError[]
 /**
  * Gets cell highlight class based on validation errors
  */
-export function getCellHighlightClass(rowIndex: number, columnName: string, errors: ValidationError[]): string {
-    // Add 2 because row 0 is headers and we're 1-indexing for users
-    const displayRowIndex = rowIndex + 2
+export function getCellHighlightClass(
+    rowIndex: number,
+    columnName: string,
+    errors: ValidationError[],
+    row?: object,
+): string {
+    const location = getRowLocation(row, rowIndex)
 
-    const error = errors.find((error) => error.row === displayRowIndex && error.column === columnName)
+    const error = errors.find((error) => isErrorAtLocation(error, location) && error.column === columnName)
 
     if (!error) return ""
 
@@ -704,11 +1463,15 @@ export function getCellHighlightClass(rowIndex: number, columnName: string, erro
 /**
  * Gets error message for a specific cell
  */
-export function getCellErrorMessage(rowIndex: number, columnName: string, errors: ValidationError[]): string | null {
-    // Add 2 because row 0 is headers and we're 1-indexing for users
-    const displayRowIndex = rowIndex + 2
+export function getCellErrorMessage(
+    rowIndex: number,
+    columnName: string,
+    errors: ValidationError[],
+    row?: object,
+): string | null {
+    const location = getRowLocation(row, rowIndex)
 
-    const error = errors.find((error) => error.row === displayRowIndex && error.column === columnName)
+    const error = errors.find((error) => isErrorAtLocation(error, location) && error.column === columnName)
 
     return error ? error.message : null
 }
@@ -716,11 +1479,10 @@ export function getCellErrorMessage(rowIndex: number, columnName: string, errors
 /**
  * Gets error icon for a specific cell based on error type
  */
-export function getCellErrorIcon(rowIndex: number, columnName: string, errors: ValidationError[]) {
-    // Add 2 because row 0 is headers and we're 1-indexing for users
-    const displayRowIndex = rowIndex + 2
+export function getCellErrorIcon(rowIndex: number, columnName: string, errors: ValidationError[], row?: object) {
+    const location = getRowLocation(row, rowIndex)
 
-    const error = errors.find((error) => error.row === displayRowIndex && error.column === columnName)
+    const error = errors.find((error) => isErrorAtLocation(error, location) && error.column === columnName)
 
     if (!error) return null
 
@@ -735,45 +1497,114 @@ export function getSuggestionForError(error: ValidationError): string {
 }
 
 /**
- * Format a value according to column configuration
+ * Normalize a valid value for the processed data: text numbers become real
+ * numbers, boolean text true or false, phone numbers E.164 and dates and
+ * times ISO strings
  */
-export function formatValue(value: any, column: ColumnConfig): string {
-    if (value === undefined || value === null || value === "") {
-        return ""
-    }
+export function normalizeValue(value: unknown, column: ColumnConfig, dataTypeConfig: DataTypeConfig): unknown {
+    const typeConfig = getColumnTypeConfig(column, dataTypeConfig)
+    if (column.type === "number") return normalizeNumberValue(value, typeConfig.number)
+    if (column.type === "boolean") return normalizeBooleanValue(value, typeConfig.boolean)
+    if (column.type === "phone") return normalizePhoneValue(value, typeConfig.phone.defaultCountry)
+    return normalizeTemporalValue(value, column.type, typeConfig)
+}
 
-    switch (column.type) {
-        case "number":
-            if (typeof value === "number") {
-                if (column.format) {
-                    // Simple number formatting - in a real app, use a library like Intl or numeral.js
-                    return value.toLocaleString()
-                }
-                return value.toString()
-            }
-            return value
+/**
+ * Convert a boolean cell to true or false using the configured true and false
+ * values. Other values are returned unchanged.
+ */
+function normalizeBooleanValue(value: unknown, booleanConfig: BooleanTypeConfig): unknown {
+    if (typeof value !== "string" && typeof value !== "number") return value
 
-        case "date":
-            if (value instanceof Date) {
-                if (column.format) {
-                    // Simple date formatting - in a real app, use a library like date-fns
-                    return value.toLocaleDateString()
-                }
-                return value.toISOString().split("T")[0]
-            }
-            return value
+    const { trueValues, falseValues, caseSensitive } = booleanConfig
+    const text = caseSensitive ? String(value).trim() : String(value).trim().toLowerCase()
+    const matches = (values: string[]) => values.some((v) => (caseSensitive ? v : v.toLowerCase()) === text)
 
-        case "boolean":
-            if (typeof value === "boolean") {
-                return value ? "Yes" : "No"
-            }
-            return value
+    if (matches(trueValues)) return true
+    if (matches(falseValues)) return false
+    return value
+}
 
-        default:
-            return String(value)
+/**
+ * Output value of a valid cell, normalized unless the column turns the
+ * transformation off
+ */
+export function transformValue(value: unknown, column: ColumnConfig, dataTypeConfig: DataTypeConfig): unknown {
+    return column.transform === "none" ? value : normalizeValue(value, column, dataTypeConfig)
+}
+
+/**
+ * Name of the column that holds a column's values as read from the file
+ */
+export function getRawValueColumn(column: ColumnConfig): string {
+    return `${column.name}_raw`
+}
+
+/**
+ * Columns for exporting the processed data. Phone columns carry the format
+ * and default country they are written with, falling back to the type settings,
+ * and kept raw values follow their column.
+ */
+export function getExportColumns(config: ImporterConfig): ColumnConfig[] {
+    return getOutputColumns(config).flatMap((column) => {
+        const rawColumns = column.keepRawValue ? [getRawColumnConfig(column)] : []
+        if (column.type !== "phone") return [column, ...rawColumns]
+
+        const { format, defaultCountry } = getColumnTypeConfig(column, config.dataTypeConfig).phone
+        const phoneColumn = {
+            ...column,
+            format: column.format || format,
+            typeConfig: { ...column.typeConfig, phone: { ...column.typeConfig?.phone, defaultCountry } },
+        }
+        return [phoneColumn, ...rawColumns]
+    })
+}
+
+/**
+ * Text column for the raw values kept next to a column
+ */
+function getRawColumnConfig(column: ColumnConfig): ColumnConfig {
+    return {
+        name: getRawValueColumn(column),
+        displayName: `${column.displayName || column.name} (raw)`,
+        required: false,
+        type: "string",
+        description: `${column.displayName || column.name} as read from the file`,
+        validationRules: [],
+        invalidHandling: column.invalidHandling,
     }
 }
 
+/**
+ * Input formats of the date and time columns of a combination, with each
+ * column's overrides applied
+ */
+function getCombinationFormats(combination: DateTimeCombination, config: ImporterConfig): CombinationFormats {
+    const typeConfigOf = (columnName: string) => {
+        const column = config.columns.find((candidate) => candidate.name === columnName)
+        return column ? getColumnTypeConfig(column, config.dataTypeConfig) : config.dataTypeConfig
+    }
+    return {
+        date: typeConfigOf(combination.dateColumn).date.inputFormats || [],
+        time: typeConfigOf(combination.timeColumn).time.inputFormats || [],
+    }
+}
+
+/**
+ * Apply the configured date and time combinations to processed rows
+ */
+export function combineDateTimeColumns(data: Record<string, unknown>[], config: ImporterConfig): Record<string, unknown>[] {
+    const combinations = getDateTimeCombinations(config).map((combination) => ({
+        combination,
+        formats: getCombinationFormats(combination, config),
+    }))
+    if (combinations.length === 0) return data
+
+    return data.map((row) =>
+        combinations.reduce((combined, { combination, formats }) => combineRow(combined, combination, formats), row),
+    )
+}
+
 /**
  * Handle invalid data according to column configuration
  */
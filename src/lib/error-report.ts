@@ -0,0 +1,108 @@
+import * as XLSX from "xlsx"
+import type { ImporterConfig, ValidationError } from "./types"
+import { buildExportWorksheet, downloadFile, sanitizeSheetName, writeWorkbook, XLSX_MIME_TYPE } from "./excel-utils"
+import { getErrorSeverity, getRowLocation, getSuggestionForError } from "./enhanced-validation-utils"
+
+// Name of the column added to the data sheet, suffixed if the data already has one
+const ERRORS_COLUMN = "errors"
+
+/**
+ * Options for building an error report workbook
+ */
+export interface ErrorReportOptions {
+    // Name of the sheet holding the annotated rows
+    sheetName?: string
+    headerRow?: ImporterConfig["headerRow"]
+}
+
+function getErrorsColumnKey(data: Record<string, unknown>[]): string {
+    const keys = new Set(data.flatMap((row) => Object.keys(row)))
+    let key = ERRORS_COLUMN
+    for (let suffix = 2; keys.has(key); suffix++) {
+        key = `${ERRORS_COLUMN}_${suffix}`
+    }
+    return key
+}
+
+/**
+ * Copy each row with its error messages joined into an extra column. Errors
+ * are matched to rows by the same sheet and row number shown on screen.
+ */
+export function annotateRowsWithErrors(
+    data: Record<string, unknown>[],
+    errors: ValidationError[],
+    headerRow: number = 1,
+): Record<string, unknown>[] {
+    const errorsColumn = getErrorsColumnKey(data)
+
+    const errorsByRow = new Map<number, ValidationError[]>()
+    errors.forEach((error) => {
+        errorsByRow.set(error.row, [...(errorsByRow.get(error.row) || []), error])
+    })
+
+    return data.map((row, rowIndex) => {
+        const location = getRowLocation(row, rowIndex, headerRow)
+        const rowErrors = (errorsByRow.get(location.row) || []).filter(
+            (error) => !location.sheet || !error.sheet || error.sheet === location.sheet,
+        )
+        return { ...row, [errorsColumn]: rowErrors.map((error) => error.message).join("; ") }
+    })
+}
+
+/**
+ * One row per validation error, with the sheet column only when errors span several sheets
+ */
+function toErrorRecords(errors: ValidationError[]): Record<string, unknown>[] {
+    const showSheet = new Set(errors.map((error) => error.sheet)).size > 1
+
+    return errors.map((error) => ({
+        ...(showSheet ? { Sheet: error.sheet ?? "" } : {}),
+        Row: error.row,
+        Column: error.column,
+        Value: error.value,
+        Message: error.message,
+        Type: error.type,
+        Severity: getErrorSeverity(error),
+        Suggestion: getSuggestionForError(error),
+    }))
+}
+
+/**
+ * Write an .xlsx report with the original rows plus an errors column on the
+ * first sheet and a list of every validation error on an "Errors" sheet
+ */
+export function writeErrorReport(
+    data: Record<string, unknown>[],
+    errors: ValidationError[],
+    options: ErrorReportOptions = {},
+): Uint8Array {
+    const headerRow = typeof options.headerRow === "number" ? options.headerRow : 1
+    const sheetName = sanitizeSheetName(options.sheetName || "Data")
+
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, buildExportWorksheet(annotateRowsWithErrors(data, errors, headerRow)), sheetName)
+    XLSX.utils.book_append_sheet(
+        workbook,
+        buildExportWorksheet(toErrorRecords(errors)),
+        sheetName === "Errors" ? "Validation Errors" : "Errors",
+    )
+
+    return writeWorkbook(workbook)
+}
+
+/**
+ * Download the error report for a validated file
+ */
+export function exportErrorReport(
+    data: Record<string, unknown>[],
+    errors: ValidationError[],
+    fileName: string,
+    options: ErrorReportOptions = {},
+): void {
+    try {
+        downloadFile(writeErrorReport(data, errors, options), `${fileName}_errors.xlsx`, XLSX_MIME_TYPE)
+    } catch (error) {
+        console.error("Error exporting error report:", error)
+        throw error
+    }
+}
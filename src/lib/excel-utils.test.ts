@@ -0,0 +1,35 @@
+import * as XLSX from "xlsx"
+import { describe, expect, it } from "vitest"
+import { parseWorkbookSheets, type ParseOptions } from "./excel-utils"
+import { defaultCsvOptions } from "./default-config"
+
+const options: ParseOptions = {
+    headerRow: "auto",
+    headerDetectionRows: 10,
+    columns: ["id", "name"].map((name) => ({ name, type: "string", required: true, validationRules: [], invalidHandling: "reject" })),
+    csv: defaultCsvOptions,
+}
+
+describe("parseWorkbookSheets", () => {
+    const bookings = Array.from({ length: 1200 }, (_, index) => (index % 10 === 0 ? [] : [index, `customer ${index}`]))
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([["Bookings export"], [], ["id", "name"], ...bookings]), "2024")
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([["id", "name"], [1, "late"]]), "2025")
+
+    it("skips blank rows and rows above the header", () => {
+        const rows = parseWorkbookSheets(workbook, ["2024", "2025"], options)
+        expect(rows).toHaveLength(1080 + 1)
+        expect(rows[0]).toMatchObject({ id: 1, name: "customer 1" })
+    })
+
+    it("reports progress that ends at the total", () => {
+        const calls: [number, number][] = []
+        parseWorkbookSheets(workbook, ["2024", "2025"], options, (processed, total) => calls.push([processed, total]))
+
+        // Worksheet rows of both sheets, including the title, blank and header rows
+        const total = 3 + 1200 + 2
+        expect(calls.every(([, reported]) => reported === total)).toBe(true)
+        expect(calls.map(([processed]) => processed)).toEqual([...calls.map(([processed]) => processed)].sort((a, b) => a - b))
+        expect(calls[calls.length - 1]).toEqual([total, total])
+    })
+})
@@ -1,73 +1,715 @@
 import * as XLSX from "xlsx"
+import { format as formatDate, parseISO } from "date-fns"
+import type { ColumnConfig, CsvOptions, HeaderIssue, ImporterConfig, RowSource, SheetSummary } from "./types"
+import { isCsvFileName, readCsvWorkbook } from "./csv-utils"
+import { isJsonFileName, readJsonWorkbook } from "./json-utils"
+import { defaultCsvOptions } from "./default-config"
+import { formatPhoneNumber } from "./phone-utils"
 
 /**
- * Parse an Excel file and return the data as an array of objects
- */
-export async function parseExcelFile(file: File): Promise<any[]> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader()
-
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result
-        const workbook = XLSX.read(data, { type: "binary" })
-
-        // Get the first worksheet
-        const worksheetName = workbook.SheetNames[0]
-        const worksheet = workbook.Sheets[worksheetName]
-
-        // Convert to JSON with headers
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, {
-          header: "A",
-          defval: "",
-          blankrows: false,
-        })
-
-        // If using header: 'A', the first row will be column letters
-        // We need to convert this to use the first row as headers
-        if (jsonData.length > 0) {
-          const headers = jsonData[0]
-          const result = jsonData.slice(1).map((row) => {
-            const obj: Record<string, any> = {}
-            Object.keys(row).forEach((key) => {
-              obj[headers[key] || key] = row[key]
-            })
-            return obj
-          })
-
-          resolve(result)
-        } else {
-          resolve([])
-        }
-      } catch (error) {
-        reject(error)
+ * Symbol key used to tag each parsed row with the sheet and row it came from.
+ * Symbol keys are skipped by Object.keys and JSON, so they never show up as columns.
+ */
+export const ROW_SOURCE = Symbol("rowSource")
+
+type ParsedRow = Record<string | symbol, unknown>
+
+/**
+ * Get the sheet and 1-based row number a parsed row came from
+ */
+export function getRowSource(row: object | null | undefined): RowSource | undefined {
+  return row ? ((row as ParsedRow)[ROW_SOURCE] as RowSource | undefined) : undefined
+}
+
+/**
+ * Tag a row with the sheet and row it came from
+ */
+export function setRowSource(row: object, source: RowSource | undefined): void {
+  if (source) {
+    const tagged = row as ParsedRow
+    tagged[ROW_SOURCE] = source
+  }
+}
+
+/**
+ * Symbol key holding the number format of each formatted cell in a row,
+ * e.g. { amount: "#,##0.00" }. Cells with the General format are left out.
+ */
+export const CELL_FORMATS = Symbol("cellFormats")
+
+/**
+ * Get the number formats of the cells in a parsed row
+ */
+export function getCellFormats(row: object | null | undefined): Record<string, string> | undefined {
+  return row ? ((row as ParsedRow)[CELL_FORMATS] as Record<string, string> | undefined) : undefined
+}
+
+/**
+ * Get the number format of one cell in a parsed row
+ */
+export function getCellFormat(row: object | null | undefined, column: string): string | undefined {
+  return getCellFormats(row)?.[column]
+}
+
+/**
+ * Attach cell number formats to a row
+ */
+export function setCellFormats(row: object, formats: Record<string, string> | undefined): void {
+  if (formats && Object.keys(formats).length > 0) {
+    const tagged = row as ParsedRow
+    tagged[CELL_FORMATS] = formats
+  }
+}
+
+/**
+ * Copy the source and cell formats of a row onto a row derived from it
+ */
+export function copyRowMetadata(from: object, to: object): void {
+  setRowSource(to, getRowSource(from))
+  setCellFormats(to, getCellFormats(from))
+}
+
+/**
+ * Convert an Excel serial date to a local Date. SheetJS's own cellDates
+ * conversion can be off by seconds in some time zones, so it is not used.
+ */
+export function excelSerialToDate(serial: number): Date | null {
+  const parsed = XLSX.SSF.parse_date_code(serial)
+  if (!parsed) return null
+  return new Date(parsed.y, parsed.m - 1, parsed.d, parsed.H, parsed.M, Math.round(parsed.S))
+}
+
+/**
+ * Convert a local Date to an Excel serial date
+ */
+export function dateToExcelSerial(date: Date): number {
+  const utc = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+  )
+  const serial = (utc - Date.UTC(1899, 11, 30)) / 86400000
+  // Excel counts the non-existent 29 Feb 1900
+  return serial < 61 && serial >= 1 ? serial - 1 : serial
+}
+
+/**
+ * Turn file contents into a SheetJS workbook. Delimited text files use the
+ * CSV options, JSON and NDJSON are flattened into rows, and everything else
+ * is left to SheetJS.
+ */
+export function readWorkbookData(data: ArrayBuffer, fileName: string, csvOptions: CsvOptions = defaultCsvOptions): XLSX.WorkBook {
+  if (isCsvFileName(fileName)) {
+    return readCsvWorkbook(data, csvOptions)
+  }
+  if (isJsonFileName(fileName)) {
+    return readJsonWorkbook(data, fileName)
+  }
+  // cellNF keeps each cell's number format so dates and formatted numbers can be recognised
+  return XLSX.read(data, { type: "array", cellNF: true })
+}
+
+/**
+ * Read a file into a SheetJS workbook
+ */
+export async function readWorkbook(file: File, csvOptions: CsvOptions = defaultCsvOptions): Promise<XLSX.WorkBook> {
+  const data = await file.arrayBuffer()
+  return readWorkbookData(data, file.name, csvOptions)
+}
+
+/**
+ * Called while rows are being converted, with the number of rows done so far
+ */
+export type ProgressCallback = (processed: number, total: number) => void
+
+// How many rows are processed between progress callbacks
+export const PROGRESS_INTERVAL = 500
+
+/**
+ * Options that control how sheets are turned into row objects
+ */
+export type ParseOptions = Pick<ImporterConfig, "headerRow" | "headerDetectionRows" | "columns" | "csv">
+
+const defaultParseOptions: ParseOptions = {
+  headerRow: "auto",
+  headerDetectionRows: 10,
+  columns: [],
+  csv: defaultCsvOptions,
+}
+
+/**
+ * Normalize a header cell or column name for comparison
+ */
+function normalizeHeader(value: unknown): string {
+  return String(value ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, " ")
+}
+
+function isBlankRow(row: unknown[]): boolean {
+  return row.every((cell) => cell === undefined || cell === null || String(cell).trim() === "")
+}
+
+/**
+ * Read a worksheet as an array of row arrays, keeping blank rows so that
+ * array indices map directly onto worksheet rows. Values keep their native
+ * types: numbers stay numbers and date-formatted cells become Date objects.
+ * Non-General number formats are returned in a parallel grid.
+ */
+function readSheetRows(worksheet: XLSX.WorkSheet): {
+  rows: unknown[][]
+  formats: (string | undefined)[][]
+  firstRow: number
+  firstColumn: number
+} {
+  if (!worksheet["!ref"]) {
+    return { rows: [], formats: [], firstRow: 0, firstColumn: 0 }
+  }
+
+  const range = XLSX.utils.decode_range(worksheet["!ref"])
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+    header: 1,
+    defval: "",
+    blankrows: true,
+    raw: true,
+  })
+
+  const formats = rows.map((): (string | undefined)[] => [])
+  rows.forEach((row, rowIndex) => {
+    row.forEach((value, columnIndex) => {
+      const address = XLSX.utils.encode_cell({ r: range.s.r + rowIndex, c: range.s.c + columnIndex })
+      const cell = worksheet[address] as XLSX.CellObject | undefined
+      if (!cell?.z || cell.z === "General") return
+
+      const cellFormat = String(cell.z)
+      formats[rowIndex][columnIndex] = cellFormat
+
+      // Dates are stored as serial numbers with a date format
+      if (cell.t === "n" && XLSX.SSF.is_date(cellFormat)) {
+        row[columnIndex] = excelSerialToDate(cell.v as number) ?? value
       }
+    })
+  })
+
+  return { rows, formats, firstRow: range.s.r, firstColumn: range.s.c }
+}
+
+/**
+ * Score the first rows of a sheet against the configured column names and
+ * return the index of the best match. Falls back to the first non-blank row
+ * when nothing matches (or no columns are configured).
+ */
+export function detectHeaderRow(rows: unknown[][], columns: ColumnConfig[], maxRows: number): number {
+  const firstNonBlank = rows.findIndex((row) => !isBlankRow(row))
+  if (firstNonBlank === -1) return -1
+
+  const knownNames = new Set<string>()
+  columns.forEach((column) => {
+    knownNames.add(normalizeHeader(column.name))
+    if (column.displayName) {
+      knownNames.add(normalizeHeader(column.displayName))
+    }
+  })
+
+  if (knownNames.size === 0) return firstNonBlank
+
+  let bestIndex = firstNonBlank
+  let bestScore = 0
+
+  rows.slice(0, maxRows).forEach((row, index) => {
+    const score = row.filter((cell) => knownNames.has(normalizeHeader(cell))).length
+    // Earlier rows win ties
+    if (score > bestScore) {
+      bestScore = score
+      bestIndex = index
+    }
+  })
+
+  return bestIndex
+}
+
+/**
+ * Resolve the header row index (into the rows array) for a sheet
+ */
+function resolveHeaderIndex(rows: unknown[][], firstRow: number, options: ParseOptions): number {
+  if (options.headerRow === "auto") {
+    return detectHeaderRow(rows, options.columns, options.headerDetectionRows)
+  }
+
+  // headerRow is a 1-based worksheet row number
+  const index = options.headerRow - 1 - firstRow
+  return index >= 0 && index < rows.length ? index : -1
+}
+
+/**
+ * Turn a header row into unique object keys. Blank headers fall back to the
+ * column letter and repeated headers get a numeric suffix ("note", "note_2"),
+ * and both are reported as header issues. Blank-header columns without any
+ * data are skipped (null key).
+ */
+function buildHeaderKeys(
+  rows: unknown[][],
+  headerIndex: number,
+  firstColumn: number,
+  sheetName: string,
+): { keys: (string | null)[]; issues: HeaderIssue[] } {
+  const headerCells = rows[headerIndex]
+  const dataRows = rows.slice(headerIndex + 1)
+  const isBlank = (cell: unknown) => cell === undefined || cell === null || String(cell).trim() === ""
+
+  // Reserve every real header up front so generated keys never shadow a later column
+  const reserved = new Set(headerCells.filter((cell) => !isBlank(cell)).map(String))
+  const used = new Set<string>()
+  const firstKeyByHeader = new Map<string, string>()
+  const issues: HeaderIssue[] = []
+
+  const suffixedKey = (base: string) => {
+    let suffix = 2
+    while (used.has(`${base}_${suffix}`) || reserved.has(`${base}_${suffix}`)) suffix++
+    return `${base}_${suffix}`
+  }
+
+  const keys = headerCells.map((cell, index) => {
+    const column = getColumnName(firstColumn + index)
+
+    if (isBlank(cell)) {
+      if (dataRows.every((row) => isBlank(row[index]))) return null
+
+      const key = reserved.has(column) || used.has(column) ? suffixedKey(column) : column
+      used.add(key)
+      issues.push({ type: "blank", key, header: "", column, sheet: sheetName })
+      return key
     }
 
-    reader.onerror = (error) => {
-      reject(error)
+    const header = String(cell)
+    const firstKey = firstKeyByHeader.get(header)
+    if (firstKey === undefined) {
+      firstKeyByHeader.set(header, header)
+      used.add(header)
+      return header
     }
 
-    reader.readAsBinaryString(file)
+    const key = suffixedKey(header)
+    used.add(key)
+    issues.push({ type: "duplicate", key, header, column, sheet: sheetName, duplicateOf: firstKey })
+    return key
   })
+
+  return { keys, issues }
 }
 
 /**
- * Export data to an Excel file
+ * List every sheet in a workbook with its row count and header preview
+ */
+export function getSheetSummaries(workbook: XLSX.WorkBook, options: ParseOptions = defaultParseOptions): SheetSummary[] {
+  return workbook.SheetNames.map((name) => {
+    const { rows, firstRow, firstColumn } = readSheetRows(workbook.Sheets[name])
+    const headerIndex = resolveHeaderIndex(rows, firstRow, options)
+
+    if (headerIndex === -1) {
+      return { name, rowCount: 0, headers: [], headerIssues: [] }
+    }
+
+    const headers = rows[headerIndex].filter((cell) => String(cell).trim() !== "").map(String)
+    const rowCount = rows.slice(headerIndex + 1).filter((row) => !isBlankRow(row)).length
+    const { issues } = buildHeaderKeys(rows, headerIndex, firstColumn, name)
+
+    return { name, rowCount, headers, headerRow: firstRow + headerIndex + 1, headerIssues: issues }
+  })
+}
+
+/**
+ * Convert one worksheet to an array of objects keyed by the header row
+ */
+function parseSheet(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: ParseOptions,
+  onRow?: () => void,
+): ParsedRow[] {
+  const worksheet = workbook.Sheets[sheetName]
+  if (!worksheet) {
+    throw new Error(`Sheet "${sheetName}" was not found in the workbook`)
+  }
+
+  const { rows, formats, firstRow, firstColumn } = readSheetRows(worksheet)
+  const headerIndex = resolveHeaderIndex(rows, firstRow, options)
+
+  if (headerIndex === -1) {
+    return []
+  }
+
+  const { keys } = buildHeaderKeys(rows, headerIndex, firstColumn, sheetName)
+
+  const result: ParsedRow[] = []
+  rows.slice(headerIndex + 1).forEach((row, offset) => {
+    onRow?.()
+    if (isBlankRow(row)) return
+
+    const obj: ParsedRow = {}
+    const cellFormats: Record<string, string> = {}
+    const rowFormats = formats[headerIndex + 1 + offset]
+    keys.forEach((key, index) => {
+      if (key === null) return
+      obj[key] = row[index] ?? ""
+      if (rowFormats[index]) cellFormats[key] = rowFormats[index]
+    })
+
+    setRowSource(obj, { sheet: sheetName, row: firstRow + headerIndex + offset + 2 })
+    setCellFormats(obj, cellFormats)
+    result.push(obj)
+  })
+
+  return result
+}
+
+/**
+ * Parse the given sheets of a workbook into a single array of row objects.
+ * Rows from sheets with different headers share the union of all headers.
+ */
+export function parseWorkbookSheets(
+  workbook: XLSX.WorkBook,
+  sheetNames: string[],
+  options: ParseOptions = defaultParseOptions,
+  onProgress?: ProgressCallback,
+): any[] {
+  // Count worksheet rows up front so progress has a stable total
+  const sheetSizes = sheetNames.map((name) => {
+    const ref = workbook.Sheets[name]?.["!ref"]
+    if (!ref) return 0
+    const range = XLSX.utils.decode_range(ref)
+    return range.e.r - range.s.r + 1
+  })
+  const total = sheetSizes.reduce((sum, size) => sum + size, 0)
+  let processed = 0
+  const onRow = onProgress
+    ? () => {
+        processed++
+        if (processed % PROGRESS_INTERVAL === 0) onProgress(processed, total)
+      }
+    : undefined
+
+  let sheetsDone = 0
+  const sheetRows = sheetNames.map((name, index) => {
+    const rows = parseSheet(workbook, name, options, onRow)
+    // Rows the loop does not visit, like the header, are counted once the sheet is done
+    sheetsDone += sheetSizes[index]
+    processed = sheetsDone
+    onProgress?.(processed, total)
+    return rows
+  })
+
+  if (sheetRows.length === 1) {
+    return sheetRows[0]
+  }
+
+  const allHeaders: string[] = []
+  sheetRows.forEach((rows) => {
+    if (rows.length === 0) return
+    Object.keys(rows[0]).forEach((header) => {
+      if (!allHeaders.includes(header)) {
+        allHeaders.push(header)
+      }
+    })
+  })
+
+  return sheetRows.flat().map((row) => {
+    const obj: ParsedRow = {}
+    allHeaders.forEach((header) => {
+      obj[header] = header in row ? row[header] : ""
+    })
+    copyRowMetadata(row, obj)
+    return obj
+  })
+}
+
+/**
+ * Parse an Excel file and return the data as an array of objects.
+ * Only the first worksheet is read unless sheet names are given.
+ */
+export async function parseExcelFile(
+  file: File,
+  sheetNames?: string[],
+  options: ParseOptions = defaultParseOptions,
+): Promise<any[]> {
+  const workbook = await readWorkbook(file, options.csv)
+  const names = sheetNames && sheetNames.length > 0 ? sheetNames : [workbook.SheetNames[0]]
+  return parseWorkbookSheets(workbook, names, options)
+}
+
+/**
+ * Options for exportToExcel
+ */
+export interface ExcelExportOptions {
+  // Worksheet name; invalid characters are removed and it is cut to 31 characters
+  sheetName?: string
+  // Column configuration that drives header names, cell types and number formats
+  columns?: ColumnConfig[]
+}
+
+export const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+const DEFAULT_DATE_FORMAT = "yyyy-mm-dd"
+const DEFAULT_DATE_TIME_FORMAT = "yyyy-mm-dd hh:mm"
+
+// Column widths in characters
+const MIN_COLUMN_WIDTH = 8
+const MAX_COLUMN_WIDTH = 60
+
+/**
+ * Trigger a browser download for generated file contents
  */
-export function exportToExcel(data: any[], fileName: string): void {
+export function downloadFile(content: BlobPart, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Make a string safe to use as an Excel worksheet name
+ */
+export function sanitizeSheetName(name: string | undefined): string {
+  const cleaned = (name || "").replace(/[\\/?*[\]:]/g, "").trim().slice(0, 31)
+  return cleaned || "Sheet1"
+}
+
+function isUsableFormat(code: string, sample: number): boolean {
   try {
-    // Create a new workbook
-    const workbook = XLSX.utils.book_new()
+    XLSX.SSF.format(code, sample)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function hasTimeOfDay(date: Date): boolean {
+  return date.getHours() !== 0 || date.getMinutes() !== 0 || date.getSeconds() !== 0
+}
+
+function toDate(value: unknown): Date | null {
+  const date =
+    value instanceof Date
+      ? value
+      : typeof value === "number"
+        ? excelSerialToDate(value)
+        : typeof value === "string"
+          ? parseISO(value.trim())
+          : null
+  return date && !isNaN(date.getTime()) ? date : null
+}
+
+function dateCell(date: Date, format?: string | null): XLSX.CellObject {
+  const serial = dateToExcelSerial(date)
+  const code = format?.toLowerCase()
+  const fallback = hasTimeOfDay(date) ? DEFAULT_DATE_TIME_FORMAT : DEFAULT_DATE_FORMAT
+  return { t: "n", v: serial, z: code && XLSX.SSF.is_date(code) && isUsableFormat(code, serial) ? code : fallback }
+}
 
-    // Convert data to worksheet
-    const worksheet = XLSX.utils.json_to_sheet(data)
+/**
+ * Build a typed worksheet cell from the column type and format. Values that
+ * do not fit the column type are written as text so nothing is lost.
+ */
+function toExcelCell(value: unknown, column?: ColumnConfig): XLSX.CellObject | null {
+  if (value === undefined || value === null || value === "") return null
 
-    // Add the worksheet to the workbook
-    XLSX.utils.book_append_sheet(workbook, worksheet, "Sheet1")
+  switch (column?.type) {
+    case "number": {
+      const num = typeof value === "number" ? value : typeof value === "string" ? Number(value.trim()) : NaN
+      if (!isNaN(num)) {
+        const cell: XLSX.CellObject = { t: "n", v: num }
+        if (column.format && isUsableFormat(column.format, num)) cell.z = column.format
+        return cell
+      }
+      break
+    }
 
-    // Generate Excel file and trigger download
-    XLSX.writeFile(workbook, `${fileName}.xlsx`)
+    case "date": {
+      const date = toDate(value)
+      if (date) return dateCell(date, column.format)
+      break
+    }
+
+    case "datetime": {
+      // Excel has no time zones, so timestamps with an offset are kept as text
+      if (typeof value === "string" && /[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i.test(value.trim())) break
+      const date = toDate(value)
+      if (date) return dateCell(date, column.format || DEFAULT_DATE_TIME_FORMAT)
+      break
+    }
+
+    case "boolean":
+      if (typeof value === "boolean") return { t: "b", v: value }
+      break
+
+    case "phone":
+      return { t: "s", v: formatPhoneNumber(value, column.format, column.typeConfig?.phone?.defaultCountry) }
+
+    case undefined:
+      // No configuration, keep the native type
+      if (typeof value === "number") return { t: "n", v: value }
+      if (typeof value === "boolean") return { t: "b", v: value }
+      if (value instanceof Date) return dateCell(value)
+      break
+  }
+
+  return { t: "s", v: value instanceof Date ? formatDateValue(value) : String(value) }
+}
+
+/**
+ * Display text of a written cell, used to size columns
+ */
+function cellText(cell: XLSX.CellObject): string {
+  return cell.t === "n" ? formatCellValue(cell.v as number, cell.z !== undefined ? String(cell.z) : undefined) : String(cell.v)
+}
+
+/**
+ * Minimal view of the zip container returned by XLSX.CFB.read
+ */
+interface ZipContainer {
+  FullPaths: string[]
+  FileIndex: { content: Uint8Array }[]
+}
+
+/**
+ * Rewrite the XML of every worksheet in a written .xlsx file, in sheet order.
+ * Used for features SheetJS Community Edition cannot write itself.
+ */
+function patchWorksheetXml(data: ArrayBuffer, patch: (xml: string, sheetIndex: number) => string): Uint8Array {
+  const container = XLSX.CFB.read(new Uint8Array(data), { type: "array" }) as ZipContainer
+  const sheetPaths = container.FullPaths.map((path) => path.match(/xl\/worksheets\/sheet(\d+)\.xml$/))
+
+  sheetPaths.forEach((match, index) => {
+    if (!match) return
+    const xml = new TextDecoder().decode(container.FileIndex[index].content)
+    const patched = patch(xml, Number(match[1]) - 1)
+    XLSX.CFB.utils.cfb_add(container, `/xl/worksheets/sheet${match[1]}.xml`, new TextEncoder().encode(patched))
+  })
+
+  return XLSX.CFB.write(container, { fileType: "zip", type: "array" }) as Uint8Array
+}
+
+/**
+ * Freeze the first row of the worksheet so the header stays visible
+ */
+function freezeHeaderRow(xml: string): string {
+  return xml.replace(
+    /<sheetView([^>]*?)\/>/,
+    '<sheetView$1><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+      '<selection pane="bottomLeft" activeCell="A2" sqref="A2"/></sheetView>',
+  )
+}
+
+/**
+ * A column of exported data: the row key, the header text and its configuration
+ */
+export interface ExportField {
+  key: string
+  header: string
+  column?: ColumnConfig
+}
+
+/**
+ * Work out which columns to export. With columns given, only configured
+ * columns present in the data are used, under their display names;
+ * otherwise every key found in the data is exported as is.
+ */
+export function getExportFields(data: Record<string, unknown>[], columns?: ColumnConfig[]): ExportField[] {
+  const dataKeys: string[] = []
+  data.forEach((row) => {
+    Object.keys(row).forEach((key) => {
+      if (!dataKeys.includes(key)) dataKeys.push(key)
+    })
+  })
+
+  if (columns && columns.length > 0) {
+    return columns
+      .filter((column) => dataKeys.includes(column.name))
+      .map((column) => ({ key: column.name, header: column.displayName || column.name, column }))
+  }
+
+  return dataKeys.map((key) => ({ key, header: key }))
+}
+
+/**
+ * Build a worksheet with typed cells, content-sized columns and an autofilter
+ * on the header row
+ */
+export function buildExportWorksheet(data: Record<string, unknown>[], columns?: ColumnConfig[]): XLSX.WorkSheet {
+  const fields = getExportFields(data, columns)
+  const worksheet: XLSX.WorkSheet = {}
+  const widths = fields.map((field) => field.header.length)
+
+  fields.forEach((field, columnIndex) => {
+    worksheet[XLSX.utils.encode_cell({ r: 0, c: columnIndex })] = { t: "s", v: field.header }
+  })
+
+  data.forEach((row, rowIndex) => {
+    fields.forEach((field, columnIndex) => {
+      const cell = toExcelCell(row[field.key], field.column)
+      if (!cell) return
+
+      worksheet[XLSX.utils.encode_cell({ r: rowIndex + 1, c: columnIndex })] = cell
+      widths[columnIndex] = Math.max(widths[columnIndex], cellText(cell).length)
+    })
+  })
+
+  const ref = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: data.length, c: Math.max(fields.length - 1, 0) } })
+  worksheet["!ref"] = ref
+  worksheet["!cols"] = widths.map((width) => ({ wch: Math.min(Math.max(width + 2, MIN_COLUMN_WIDTH), MAX_COLUMN_WIDTH) }))
+  if (fields.length > 0) {
+    worksheet["!autofilter"] = { ref }
+  }
+
+  return worksheet
+}
+
+/**
+ * Write a workbook as .xlsx file contents with the header row of every sheet
+ * frozen. An extra patch can edit each worksheet's XML afterwards.
+ */
+export function writeWorkbook(
+  workbook: XLSX.WorkBook,
+  patch?: (xml: string, sheetIndex: number) => string,
+): Uint8Array {
+  const written = XLSX.write(workbook, { type: "array", bookType: "xlsx" }) as ArrayBuffer
+  return patchWorksheetXml(written, (xml, sheetIndex) => {
+    const frozen = freezeHeaderRow(xml)
+    return patch ? patch(frozen, sheetIndex) : frozen
+  })
+}
+
+/**
+ * Write data as .xlsx file contents with typed cells, sized columns, an
+ * autofilter and a frozen header row
+ */
+export function writeExcelFile(data: Record<string, unknown>[], options: ExcelExportOptions = {}): Uint8Array {
+  // Create a new workbook
+  const workbook = XLSX.utils.book_new()
+
+  // Convert data to worksheet
+  const worksheet = buildExportWorksheet(data, options.columns)
+
+  // Add the worksheet to the workbook
+  XLSX.utils.book_append_sheet(workbook, worksheet, sanitizeSheetName(options.sheetName))
+
+  // Generate the Excel file and freeze the header
+  return writeWorkbook(workbook)
+}
+
+/**
+ * Export data to an Excel file
+ */
+export function exportToExcel(data: any[], fileName: string, options: ExcelExportOptions = {}): void {
+  try {
+    downloadFile(writeExcelFile(data, options), `${fileName}.xlsx`, XLSX_MIME_TYPE)
   } catch (error) {
     console.error("Error exporting to Excel:", error)
     throw error
@@ -89,22 +731,39 @@ export function getColumnName(colIndex: number): string {
 }
 
 /**
- * Format cell value based on its type
+ * Format a date as YYYY-MM-DD in local time, adding the time of day when it has one
  */
-export function formatCellValue(value: any): string {
+export function formatDateValue(date: Date): string {
+  if (date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0) {
+    return formatDate(date, "yyyy-MM-dd")
+  }
+  return formatDate(date, date.getSeconds() === 0 ? "yyyy-MM-dd HH:mm" : "yyyy-MM-dd HH:mm:ss")
+}
+
+/**
+ * Format cell value based on its type, using the cell's number format when known
+ */
+export function formatCellValue(value: any, cellFormat?: string): string {
   if (value === null || value === undefined) {
     return ""
   }
 
+  if (cellFormat && (typeof value === "number" || value instanceof Date)) {
+    try {
+      return XLSX.SSF.format(cellFormat, value instanceof Date ? dateToExcelSerial(value) : value)
+    } catch {
+      // Unsupported format code, fall back to the plain value
+    }
+  }
+
   if (typeof value === "number") {
     // Format numbers with 2 decimal places if they have decimals
     return Number.isInteger(value) ? value.toString() : value.toFixed(2)
   }
 
   if (value instanceof Date) {
-    return value.toLocaleDateString()
+    return formatDateValue(value)
   }
 
   return String(value)
 }
-
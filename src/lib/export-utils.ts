@@ -0,0 +1,197 @@
+import * as XLSX from "xlsx"
+import type { ColumnConfig } from "./types"
+import { serializeCsv } from "./csv-utils"
+import {
+    buildExportWorksheet,
+    downloadFile,
+    formatDateValue,
+    getExportFields,
+    sanitizeSheetName,
+    writeExcelFile,
+    type ExportField,
+} from "./excel-utils"
+import { formatPhoneNumber } from "./phone-utils"
+
+/**
+ * Settings shared by all exporters; each exporter lists the ones it uses
+ */
+export interface ExportOptions {
+    sheetName: string
+    delimiter: string
+    lineEnding: "\n" | "\r\n"
+    prettyPrint: boolean
+    // Start text files with a UTF-8 byte order mark so Excel detects the encoding
+    includeBom: boolean
+}
+
+export const defaultExportOptions: ExportOptions = {
+    sheetName: "Sheet1",
+    delimiter: ",",
+    lineEnding: "\n",
+    prettyPrint: true,
+    includeBom: false,
+}
+
+export interface Exporter {
+    format: string
+    label: string
+    extension: string
+    mimeType: string
+    // Options shown in the format chooser for this exporter
+    options: (keyof ExportOptions)[]
+    serialize: (data: Record<string, unknown>[], options: ExportOptions, columns?: ColumnConfig[]) => BlobPart
+}
+
+const exporters = new Map<string, Exporter>()
+
+/**
+ * Add an exporter, replacing any existing exporter for the same format
+ */
+export function registerExporter(exporter: Exporter): void {
+    exporters.set(exporter.format, exporter)
+}
+
+/**
+ * List the registered exporters in registration order
+ */
+export function getExporters(): Exporter[] {
+    return [...exporters.values()]
+}
+
+/**
+ * Look up the exporter for a format
+ */
+export function getExporter(format: string): Exporter | undefined {
+    return exporters.get(format)
+}
+
+/**
+ * Export data in the given format and trigger a download
+ */
+export function exportData(
+    format: string,
+    data: Record<string, unknown>[],
+    fileName: string,
+    options: Partial<ExportOptions> = {},
+    columns?: ColumnConfig[],
+): void {
+    const exporter = getExporter(format)
+    if (!exporter) {
+        throw new Error(`No exporter registered for format "${format}"`)
+    }
+
+    try {
+        const content = exporter.serialize(data, { ...defaultExportOptions, ...options }, columns)
+        downloadFile(content, `${fileName}.${exporter.extension}`, exporter.mimeType)
+    } catch (error) {
+        console.error(`Error exporting to ${exporter.label}:`, error)
+        throw error
+    }
+}
+
+/**
+ * Phone numbers in the column's export format, other values as they are
+ */
+function applyColumnFormat(value: unknown, column?: ColumnConfig): unknown {
+    if (column?.type !== "phone" || value === undefined || value === null || value === "") return value
+    return formatPhoneNumber(value, column.format, column.typeConfig?.phone?.defaultCountry)
+}
+
+/**
+ * Text form of a value for delimited files; dates use local YYYY-MM-DD
+ */
+function toText(value: unknown, column?: ColumnConfig): string {
+    const formatted = applyColumnFormat(value, column)
+    if (formatted === undefined || formatted === null) return ""
+    return formatted instanceof Date ? formatDateValue(formatted) : String(formatted)
+}
+
+/**
+ * JSON form of a value; dates become local YYYY-MM-DD strings instead of UTC timestamps
+ */
+function toJsonValue(value: unknown, column?: ColumnConfig): unknown {
+    const formatted = applyColumnFormat(value, column)
+    return formatted instanceof Date ? formatDateValue(formatted) : (formatted ?? null)
+}
+
+function toRecords(data: Record<string, unknown>[], fields: ExportField[]): Record<string, unknown>[] {
+    return data.map((row) =>
+        Object.fromEntries(fields.map((field) => [field.key, toJsonValue(row[field.key], field.column)])),
+    )
+}
+
+function serializeDelimited(
+    data: Record<string, unknown>[],
+    options: ExportOptions,
+    delimiter: string,
+    columns?: ColumnConfig[],
+): string {
+    const fields = getExportFields(data, columns)
+    const rows = [
+        fields.map((field) => field.header),
+        ...data.map((row) => fields.map((field) => toText(row[field.key], field.column))),
+    ]
+    return (options.includeBom ? "\uFEFF" : "") + serializeCsv(rows, { delimiter, lineEnding: options.lineEnding })
+}
+
+registerExporter({
+    format: "xlsx",
+    label: "Excel (.xlsx)",
+    extension: "xlsx",
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    options: ["sheetName"],
+    serialize: (data, options, columns) => writeExcelFile(data, { sheetName: options.sheetName, columns }),
+})
+
+registerExporter({
+    format: "ods",
+    label: "OpenDocument (.ods)",
+    extension: "ods",
+    mimeType: "application/vnd.oasis.opendocument.spreadsheet",
+    options: ["sheetName"],
+    serialize: (data, options, columns) => {
+        const workbook = XLSX.utils.book_new()
+        XLSX.utils.book_append_sheet(workbook, buildExportWorksheet(data, columns), sanitizeSheetName(options.sheetName))
+        return XLSX.write(workbook, { type: "array", bookType: "ods" }) as ArrayBuffer
+    },
+})
+
+registerExporter({
+    format: "csv",
+    label: "CSV (.csv)",
+    extension: "csv",
+    mimeType: "text/csv",
+    options: ["delimiter", "lineEnding", "includeBom"],
+    serialize: (data, options, columns) => serializeDelimited(data, options, options.delimiter, columns),
+})
+
+registerExporter({
+    format: "tsv",
+    label: "TSV (.tsv)",
+    extension: "tsv",
+    mimeType: "text/tab-separated-values",
+    options: ["lineEnding", "includeBom"],
+    serialize: (data, options, columns) => serializeDelimited(data, options, "\t", columns),
+})
+
+registerExporter({
+    format: "json",
+    label: "JSON (.json)",
+    extension: "json",
+    mimeType: "application/json",
+    options: ["prettyPrint"],
+    serialize: (data, options, columns) =>
+        JSON.stringify(toRecords(data, getExportFields(data, columns)), null, options.prettyPrint ? 2 : undefined),
+})
+
+registerExporter({
+    format: "ndjson",
+    label: "NDJSON (.ndjson)",
+    extension: "ndjson",
+    mimeType: "application/x-ndjson",
+    options: ["lineEnding"],
+    serialize: (data, options, columns) =>
+        toRecords(data, getExportFields(data, columns))
+            .map((record) => JSON.stringify(record))
+            .join(options.lineEnding) + options.lineEnding,
+})
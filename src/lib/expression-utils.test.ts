@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+import { evaluateExpression, ExpressionError, getExpressionError } from "./expression-utils"
+
+const scope = { value: "Sedan", row: { seats: 4, type: "Sedan" } }
+
+describe("evaluateExpression", () => {
+    it("evaluates operators, methods and row values", () => {
+        expect(evaluateExpression('value.length <= 10 && !value.includes("http")', scope)).toBe(true)
+        expect(evaluateExpression("row.seats * 2 > 6 ? 'big' : 'small'", scope)).toBe("big")
+        expect(evaluateExpression('["Sedan", "SUV"].includes(value)', scope)).toBe(true)
+    })
+
+    it("compares text cells with numbers loosely", () => {
+        expect(evaluateExpression("value == 5", { value: "5", row: {} })).toBe(true)
+    })
+
+    it("does not expose globals or prototype members", () => {
+        expect(getExpressionError("window")).toMatch(/Unknown name "window"/)
+        expect(evaluateExpression("row.constructor", scope)).toBeUndefined()
+        expect(evaluateExpression('row["__proto__"]', scope)).toBeUndefined()
+        expect(evaluateExpression("value.constructor", scope)).toBeUndefined()
+    })
+
+    it("refuses to call anything outside the allowed functions and methods", () => {
+        expect(() => evaluateExpression('value.constructor("return 1")', scope)).toThrow(ExpressionError)
+        expect(() => evaluateExpression("alert(1)", scope)).toThrow(ExpressionError)
+        expect(() => evaluateExpression("row.toString()", scope)).toThrow(ExpressionError)
+    })
+})
+
+describe("getExpressionError", () => {
+    it("reports syntax errors and accepts valid expressions", () => {
+        expect(getExpressionError("value.length >")).not.toBeNull()
+        expect(getExpressionError("value = 1")).not.toBeNull()
+        expect(getExpressionError("isEmpty(value) || number(value) > 0")).toBeNull()
+    })
+})
@@ -0,0 +1,509 @@
+/**
+ * A small expression language for custom validation rules. Expressions are
+ * parsed into a syntax tree and interpreted, never passed to eval, and can
+ * only read the current value and row through a fixed set of operators,
+ * functions and string/array methods.
+ *
+ * Example: value.length <= 200 && !value.includes("http")
+ */
+
+/**
+ * Parse or evaluation error, with the character offset it refers to
+ */
+export class ExpressionError extends Error {
+    readonly position: number
+
+    constructor(message: string, position: number) {
+        super(message)
+        this.name = "ExpressionError"
+        this.position = position
+    }
+}
+
+/**
+ * Values an expression can refer to by name
+ */
+export interface ExpressionScope {
+    value: unknown
+    row: Record<string, unknown>
+}
+
+export type ExpressionNode =
+    | { type: "literal"; value: unknown; position: number }
+    | { type: "identifier"; name: string; position: number }
+    | { type: "array"; elements: ExpressionNode[]; position: number }
+    | { type: "member"; object: ExpressionNode; property: ExpressionNode; position: number }
+    | { type: "call"; callee: ExpressionNode; args: ExpressionNode[]; position: number }
+    | { type: "unary"; operator: string; argument: ExpressionNode; position: number }
+    | { type: "binary"; operator: string; left: ExpressionNode; right: ExpressionNode; position: number }
+    | {
+          type: "conditional"
+          test: ExpressionNode
+          consequent: ExpressionNode
+          alternate: ExpressionNode
+          position: number
+      }
+
+interface Token {
+    type: "number" | "string" | "name" | "operator" | "end"
+    value: string
+    position: number
+}
+
+// Longest operators first so "===" is not read as "==" followed by "="
+const OPERATORS = [
+    "===", "!==", "==", "!=", "<=", ">=", "&&", "||", "??",
+    "<", ">", "+", "-", "*", "/", "%", "!", "?", ":", ".", ",", "(", ")", "[", "]",
+]
+
+const KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null, undefined: undefined }
+
+// Binary operators by precedence, lowest first
+const BINARY_PRECEDENCE: string[][] = [
+    ["||", "??"],
+    ["&&"],
+    ["==", "!=", "===", "!=="],
+    ["<", "<=", ">", ">="],
+    ["+", "-"],
+    ["*", "/", "%"],
+]
+
+const STRING_METHODS: Record<string, (text: string, ...args: unknown[]) => unknown> = {
+    includes: (text, search) => text.includes(String(search)),
+    startsWith: (text, search) => text.startsWith(String(search)),
+    endsWith: (text, search) => text.endsWith(String(search)),
+    indexOf: (text, search) => text.indexOf(String(search)),
+    toLowerCase: (text) => text.toLowerCase(),
+    toUpperCase: (text) => text.toUpperCase(),
+    trim: (text) => text.trim(),
+    slice: (text, start, end) => text.slice(Number(start), end === undefined ? undefined : Number(end)),
+    split: (text, separator) => text.split(String(separator)),
+}
+
+const ARRAY_METHODS: Record<string, (items: unknown[], ...args: unknown[]) => unknown> = {
+    includes: (items, search) => items.includes(search),
+    indexOf: (items, search) => items.indexOf(search),
+    join: (items, separator) => items.join(separator === undefined ? "," : String(separator)),
+}
+
+const FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+    isEmpty: (x) => x === undefined || x === null || (typeof x === "string" && x.trim() === ""),
+    number: (x) => Number(x),
+    text: (x) => (x === undefined || x === null ? "" : String(x)),
+    matches: (x, pattern, flags) =>
+        new RegExp(String(pattern), flags === undefined ? "" : String(flags)).test(String(x ?? "")),
+    abs: (x) => Math.abs(Number(x)),
+    round: (x, digits) => {
+        const factor = 10 ** Number(digits ?? 0)
+        return Math.round(Number(x) * factor) / factor
+    },
+    min: (...args) => Math.min(...args.map(Number)),
+    max: (...args) => Math.max(...args.map(Number)),
+}
+
+const SCOPE_NAMES = ["value", "row"]
+
+// Lookups in the tables above must not reach Object.prototype members such as "constructor"
+function hasOwn(table: object, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(table, key)
+}
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = []
+    let i = 0
+
+    while (i < source.length) {
+        const char = source[i]
+
+        if (/\s/.test(char)) {
+            i++
+            continue
+        }
+
+        if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(source[i + 1] || ""))) {
+            const match = source.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/)!
+            tokens.push({ type: "number", value: match[0], position: i })
+            i += match[0].length
+            continue
+        }
+
+        if (/[A-Za-z_$]/.test(char)) {
+            const match = source.slice(i).match(/^[A-Za-z_$][\w$]*/)!
+            tokens.push({ type: "name", value: match[0], position: i })
+            i += match[0].length
+            continue
+        }
+
+        if (char === '"' || char === "'") {
+            const start = i
+            let text = ""
+            i++
+            while (i < source.length && source[i] !== char) {
+                if (source[i] === "\\") {
+                    const next = source[i + 1]
+                    if (next === undefined) {
+                        i = source.length
+                        break
+                    }
+                    if (next === "u") {
+                        const hex = source.slice(i + 2, i + 6)
+                        if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+                            throw new ExpressionError(`Invalid escape sequence at position ${i + 1}`, i)
+                        }
+                        text += String.fromCharCode(parseInt(hex, 16))
+                        i += 6
+                        continue
+                    }
+                    text += { n: "\n", t: "\t", r: "\r" }[next as "n" | "t" | "r"] ?? next
+                    i += 2
+                    continue
+                }
+                text += source[i]
+                i++
+            }
+            if (i >= source.length) {
+                throw new ExpressionError(`Unterminated string starting at position ${start + 1}`, start)
+            }
+            tokens.push({ type: "string", value: text, position: start })
+            i++
+            continue
+        }
+
+        const operator = OPERATORS.find((op) => source.startsWith(op, i))
+        if (!operator) {
+            throw new ExpressionError(`Unexpected character "${char}" at position ${i + 1}`, i)
+        }
+        tokens.push({ type: "operator", value: operator, position: i })
+        i += operator.length
+    }
+
+    tokens.push({ type: "end", value: "", position: source.length })
+    return tokens
+}
+
+/**
+ * Recursive descent parser producing an expression tree
+ */
+function parseTokens(tokens: Token[]): ExpressionNode {
+    let index = 0
+
+    const peek = () => tokens[index]
+    const isOperator = (value: string) => peek().type === "operator" && peek().value === value
+    const describe = (token: Token) => (token.type === "end" ? "end of expression" : `"${token.value}"`)
+    const fail = (token: Token): never => {
+        throw new ExpressionError(`Unexpected ${describe(token)} at position ${token.position + 1}`, token.position)
+    }
+    const expect = (value: string) => {
+        if (!isOperator(value)) {
+            const token = peek()
+            throw new ExpressionError(
+                `Expected "${value}" but found ${describe(token)} at position ${token.position + 1}`,
+                token.position,
+            )
+        }
+        index++
+    }
+
+    const parseList = (closing: string): ExpressionNode[] => {
+        const items: ExpressionNode[] = []
+        if (!isOperator(closing)) {
+            items.push(parseConditional())
+            while (isOperator(",")) {
+                index++
+                items.push(parseConditional())
+            }
+        }
+        expect(closing)
+        return items
+    }
+
+    const parsePrimary = (): ExpressionNode => {
+        const token = peek()
+        index++
+
+        switch (token.type) {
+            case "number":
+                return { type: "literal", value: Number(token.value), position: token.position }
+            case "string":
+                return { type: "literal", value: token.value, position: token.position }
+            case "name":
+                if (hasOwn(KEYWORDS, token.value)) {
+                    return { type: "literal", value: KEYWORDS[token.value], position: token.position }
+                }
+                if (!SCOPE_NAMES.includes(token.value) && !hasOwn(FUNCTIONS, token.value)) {
+                    throw new ExpressionError(
+                        `Unknown name "${token.value}" at position ${token.position + 1}; use value, row or a built-in function`,
+                        token.position,
+                    )
+                }
+                return { type: "identifier", name: token.value, position: token.position }
+            case "operator":
+                if (token.value === "(") {
+                    const inner = parseConditional()
+                    expect(")")
+                    return inner
+                }
+                if (token.value === "[") {
+                    return { type: "array", elements: parseList("]"), position: token.position }
+                }
+                return fail(token)
+            default:
+                return fail(token)
+        }
+    }
+
+    const parsePostfix = (): ExpressionNode => {
+        let node = parsePrimary()
+
+        while (true) {
+            const token = peek()
+            if (isOperator(".")) {
+                index++
+                const name = peek()
+                if (name.type !== "name") fail(name)
+                index++
+                node = {
+                    type: "member",
+                    object: node,
+                    property: { type: "literal", value: name.value, position: name.position },
+                    position: token.position,
+                }
+            } else if (isOperator("[")) {
+                index++
+                const property = parseConditional()
+                expect("]")
+                node = { type: "member", object: node, property, position: token.position }
+            } else if (isOperator("(")) {
+                index++
+                const isFunction = node.type === "identifier" && hasOwn(FUNCTIONS, node.name)
+                const methodName = node.type === "member" && node.property.type === "literal" ? String(node.property.value) : ""
+                const isMethod = hasOwn(STRING_METHODS, methodName) || hasOwn(ARRAY_METHODS, methodName)
+                if (!isFunction && !isMethod) {
+                    throw new ExpressionError(
+                        `Only built-in functions and methods can be called (position ${token.position + 1})`,
+                        token.position,
+                    )
+                }
+                node = { type: "call", callee: node, args: parseList(")"), position: token.position }
+            } else {
+                return node
+            }
+        }
+    }
+
+    const parseUnary = (): ExpressionNode => {
+        const token = peek()
+        if (token.type === "operator" && ["!", "-", "+"].includes(token.value)) {
+            index++
+            return { type: "unary", operator: token.value, argument: parseUnary(), position: token.position }
+        }
+        return parsePostfix()
+    }
+
+    const parseBinary = (level: number): ExpressionNode => {
+        if (level >= BINARY_PRECEDENCE.length) return parseUnary()
+
+        let left = parseBinary(level + 1)
+        while (peek().type === "operator" && BINARY_PRECEDENCE[level].includes(peek().value)) {
+            const token = peek()
+            index++
+            const right = parseBinary(level + 1)
+            left = { type: "binary", operator: token.value, left, right, position: token.position }
+        }
+        return left
+    }
+
+    const parseConditional = (): ExpressionNode => {
+        const test = parseBinary(0)
+        if (!isOperator("?")) return test
+
+        const position = peek().position
+        index++
+        const consequent = parseConditional()
+        expect(":")
+        const alternate = parseConditional()
+        return { type: "conditional", test, consequent, alternate, position }
+    }
+
+    const tree = parseConditional()
+    if (peek().type !== "end") fail(peek())
+    return tree
+}
+
+const parsedExpressions = new Map<string, ExpressionNode>()
+
+/**
+ * Parse an expression, reusing the tree of an identical earlier expression
+ */
+export function parseExpression(source: string): ExpressionNode {
+    let tree = parsedExpressions.get(source)
+    if (!tree) {
+        if (source.trim() === "") {
+            throw new ExpressionError("Expression is empty", 0)
+        }
+        tree = parseTokens(tokenize(source))
+        parsedExpressions.set(source, tree)
+    }
+    return tree
+}
+
+/**
+ * Return the parse error of an expression, or null when it is valid
+ */
+export function getExpressionError(source: string): string | null {
+    try {
+        parseExpression(source)
+        return null
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error)
+    }
+}
+
+/**
+ * Read a property the way the expression language allows: own properties of
+ * the row, the length and items of strings and arrays. Anything else,
+ * including prototype members, reads as undefined.
+ */
+function readProperty(object: unknown, property: unknown): unknown {
+    if (object === undefined || object === null) return undefined
+
+    if (typeof object === "string" || Array.isArray(object)) {
+        if (property === "length") return object.length
+        const index = Number(property)
+        return Number.isInteger(index) && index >= 0 ? object[index] : undefined
+    }
+
+    if (typeof object === "object" && !(object instanceof Date)) {
+        const key = String(property)
+        return Object.prototype.hasOwnProperty.call(object, key) ? (object as Record<string, unknown>)[key] : undefined
+    }
+
+    return undefined
+}
+
+function callMethod(
+    node: Extract<ExpressionNode, { type: "member" }>,
+    args: unknown[],
+    scope: ExpressionScope,
+): unknown {
+    const target = evaluateNode(node.object, scope)
+    const name = String(evaluateNode(node.property, scope))
+
+    if (typeof target === "string" && hasOwn(STRING_METHODS, name)) {
+        return STRING_METHODS[name](target, ...args)
+    }
+    if (Array.isArray(target) && hasOwn(ARRAY_METHODS, name)) {
+        return ARRAY_METHODS[name](target, ...args)
+    }
+
+    const kind = target === null ? "null" : target instanceof Date ? "date" : typeof target
+    throw new ExpressionError(
+        `${name}() is not available on a ${kind} value (position ${node.position + 1})`,
+        node.position,
+    )
+}
+
+function evaluateBinary(operator: string, left: unknown, right: unknown): unknown {
+    // Comparisons and arithmetic on primitives only, so objects never run user code through valueOf
+    const toPrimitive = (value: unknown) => (value instanceof Date ? value.getTime() : value)
+    const a = toPrimitive(left) as number
+    const b = toPrimitive(right) as number
+
+    switch (operator) {
+        // Loose equality on purpose, so a text cell "5" equals 5
+        case "==":
+            return a == b
+        case "!=":
+            return a != b
+        case "===":
+            return a === b
+        case "!==":
+            return a !== b
+        case "<":
+            return a < b
+        case "<=":
+            return a <= b
+        case ">":
+            return a > b
+        case ">=":
+            return a >= b
+        case "+":
+            return typeof a === "string" || typeof b === "string" ? `${a ?? ""}${b ?? ""}` : Number(a) + Number(b)
+        case "-":
+            return Number(a) - Number(b)
+        case "*":
+            return Number(a) * Number(b)
+        case "/":
+            return Number(a) / Number(b)
+        case "%":
+            return Number(a) % Number(b)
+        default:
+            return undefined
+    }
+}
+
+function evaluateNode(node: ExpressionNode, scope: ExpressionScope): unknown {
+    switch (node.type) {
+        case "literal":
+            return node.value
+
+        case "identifier":
+            return node.name === "value" ? scope.value : node.name === "row" ? scope.row : undefined
+
+        case "array":
+            return node.elements.map((element) => evaluateNode(element, scope))
+
+        case "member":
+            return readProperty(evaluateNode(node.object, scope), evaluateNode(node.property, scope))
+
+        case "call": {
+            const args = node.args.map((arg) => evaluateNode(arg, scope))
+            if (node.callee.type === "identifier") {
+                return FUNCTIONS[node.callee.name](...args)
+            }
+            if (node.callee.type === "member") {
+                return callMethod(node.callee, args, scope)
+            }
+            throw new ExpressionError(`Expression cannot be called (position ${node.position + 1})`, node.position)
+        }
+
+        case "unary": {
+            const argument = evaluateNode(node.argument, scope)
+            if (node.operator === "!") return !argument
+            return node.operator === "-" ? -Number(argument) : Number(argument)
+        }
+
+        case "binary": {
+            // Logical operators short-circuit like in JavaScript
+            if (node.operator === "&&") {
+                const left = evaluateNode(node.left, scope)
+                return left ? evaluateNode(node.right, scope) : left
+            }
+            if (node.operator === "||") {
+                const left = evaluateNode(node.left, scope)
+                return left ? left : evaluateNode(node.right, scope)
+            }
+            if (node.operator === "??") {
+                const left = evaluateNode(node.left, scope)
+                return left ?? evaluateNode(node.right, scope)
+            }
+            return evaluateBinary(node.operator, evaluateNode(node.left, scope), evaluateNode(node.right, scope))
+        }
+
+        case "conditional":
+            return evaluateNode(node.test, scope)
+                ? evaluateNode(node.consequent, scope)
+                : evaluateNode(node.alternate, scope)
+    }
+}
+
+/**
+ * Evaluate an expression against a value and its row. Throws an
+ * ExpressionError for invalid expressions and unsupported method calls.
+ */
+export function evaluateExpression(source: string, scope: ExpressionScope): unknown {
+    return evaluateNode(parseExpression(source), scope)
+}
@@ -0,0 +1,193 @@
+import type {
+    ColumnConfig,
+    ColumnProfile,
+    DataTypeConfig,
+    ImporterConfig,
+    SchemaValidationResult,
+    SheetSummary,
+    ValidationResult,
+} from "./types"
+import type { ParseOptions } from "./excel-utils"
+import {
+    packRows,
+    unpackRows,
+    type ImportProgress,
+    type ImportWorkerRequest,
+    type ImportWorkerResponse,
+    type ImportWorkerTask,
+    type PackedRows,
+} from "./import-worker-protocol"
+
+export type { ImportProgress, ImportStage } from "./import-worker-protocol"
+
+/**
+ * Rejection reason for tasks that were cancelled by the user
+ */
+export class ImportCancelledError extends Error {
+    constructor() {
+        super("Import was cancelled")
+        this.name = "ImportCancelledError"
+    }
+}
+
+interface PendingTask {
+    resolve: (result: unknown) => void
+    reject: (error: Error) => void
+    onProgress?: (progress: ImportProgress) => void
+}
+
+let worker: Worker | null = null
+let nextTaskId = 0
+const pendingTasks = new Map<number, PendingTask>()
+
+function getWorker(): Worker {
+    if (!worker) {
+        worker = new Worker(new URL("./import-worker.ts", import.meta.url))
+
+        worker.onmessage = (event: MessageEvent<ImportWorkerResponse>) => {
+            const response = event.data
+            const task = pendingTasks.get(response.id)
+            if (!task) return
+
+            switch (response.type) {
+                case "progress":
+                    task.onProgress?.(response.progress)
+                    break
+
+                case "result":
+                    pendingTasks.delete(response.id)
+                    task.resolve(response.result)
+                    break
+
+                case "error":
+                    pendingTasks.delete(response.id)
+                    task.reject(new Error(response.message))
+                    break
+            }
+        }
+
+        worker.onerror = (event) => {
+            console.error("Import worker error:", event.message)
+            pendingTasks.forEach((task) => task.reject(new Error(event.message || "Import worker failed")))
+            pendingTasks.clear()
+        }
+    }
+
+    return worker
+}
+
+function runTask<T>(task: ImportWorkerTask, onProgress?: (progress: ImportProgress) => void): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        const id = nextTaskId++
+        pendingTasks.set(id, { resolve: resolve as (result: unknown) => void, reject, onProgress })
+        getWorker().postMessage({ ...task, id } satisfies ImportWorkerRequest)
+    })
+}
+
+/**
+ * Stops the worker immediately and rejects every running task.
+ * A fresh worker is started by the next task.
+ */
+export function cancelImportTasks(): void {
+    if (worker) {
+        worker.terminate()
+        worker = null
+    }
+
+    pendingTasks.forEach((task) => task.reject(new ImportCancelledError()))
+    pendingTasks.clear()
+}
+
+/**
+ * Validation rules may carry validator functions, which cannot be cloned into the worker
+ */
+function stripValidators(columns: ColumnConfig[]): ColumnConfig[] {
+    return columns.map((column) => ({
+        ...column,
+        validationRules: column.validationRules.map((rule) => {
+            const cloneableRule = { ...rule }
+            delete cloneableRule.validator
+            return cloneableRule
+        }),
+    }))
+}
+
+function toWorkerConfig(config: ImporterConfig): ImporterConfig {
+    return { ...config, columns: stripValidators(config.columns) }
+}
+
+/**
+ * Picks only the parse settings, so a full ImporterConfig can be passed as options
+ */
+function toParseOptions(options: ParseOptions): ParseOptions {
+    return {
+        headerRow: options.headerRow,
+        headerDetectionRows: options.headerDetectionRows,
+        columns: stripValidators(options.columns),
+        csv: options.csv,
+    }
+}
+
+/**
+ * Reads a workbook in the worker and returns its sheets. The workbook stays
+ * loaded in the worker so parseSheetsInWorker can convert the chosen sheets.
+ */
+export function readFileInWorker(
+    file: File,
+    options: ParseOptions,
+    onProgress?: (progress: ImportProgress) => void,
+): Promise<SheetSummary[]> {
+    return runTask<SheetSummary[]>({ type: "read", file, options: toParseOptions(options) }, onProgress)
+}
+
+/**
+ * Converts sheets of the workbook last loaded by readFileInWorker into row objects
+ */
+export async function parseSheetsInWorker(
+    sheetNames: string[],
+    options: ParseOptions,
+    onProgress?: (progress: ImportProgress) => void,
+): Promise<Record<string, unknown>[]> {
+    const packed = await runTask<PackedRows>({ type: "parse", sheetNames, options: toParseOptions(options) }, onProgress)
+    return unpackRows(packed)
+}
+
+/**
+ * Runs schema validation in the worker
+ */
+export async function validateSchemaInWorker(
+    data: Record<string, unknown>[],
+    config: ImporterConfig,
+    onProgress?: (progress: ImportProgress) => void,
+): Promise<SchemaValidationResult> {
+    const result = await runTask<Omit<SchemaValidationResult, "validData"> & { validData: PackedRows }>(
+        { type: "schema", data: packRows(data), config: toWorkerConfig(config) },
+        onProgress,
+    )
+    return { ...result, validData: unpackRows(result.validData) }
+}
+
+/**
+ * Runs data validation in the worker
+ */
+export function validateDataInWorker(
+    data: Record<string, unknown>[],
+    config: ImporterConfig,
+    onProgress?: (progress: ImportProgress) => void,
+): Promise<ValidationResult> {
+    return runTask<ValidationResult>(
+        { type: "validate", data: packRows(data), config: toWorkerConfig(config) },
+        onProgress,
+    )
+}
+
+/**
+ * Profiles the columns of the data in the worker
+ */
+export function profileDataInWorker(
+    data: Record<string, unknown>[],
+    dataTypeConfig: DataTypeConfig,
+    onProgress?: (progress: ImportProgress) => void,
+): Promise<ColumnProfile[]> {
+    return runTask<ColumnProfile[]>({ type: "profile", data: packRows(data), dataTypeConfig }, onProgress)
+}
@@ -0,0 +1,59 @@
+import type { DataTypeConfig, ImporterConfig, RowSource } from "./types"
+import { getCellFormats, getRowSource, setCellFormats, setRowSource, type ParseOptions } from "./excel-utils"
+
+// Messages exchanged between import-worker.ts and import-worker-client.ts
+
+// "remote" runs on the main thread after the worker, see remote-validation
+export type ImportStage = "reading" | "parsing" | "schema" | "validating" | "remote" | "profiling"
+
+export interface ImportProgress {
+    stage: ImportStage
+    processed: number
+    total: number
+}
+
+/**
+ * Rows cross the worker boundary as plain objects plus parallel lists of
+ * sources and cell formats, because structured clone drops symbol keys
+ */
+export interface PackedRows {
+    rows: Record<string, unknown>[]
+    sources: (RowSource | undefined)[]
+    formats: (Record<string, string> | undefined)[]
+}
+
+export type ImportWorkerTask =
+    | { type: "read"; file: File; options: ParseOptions }
+    | { type: "parse"; sheetNames: string[]; options: ParseOptions }
+    | { type: "schema"; data: PackedRows; config: ImporterConfig }
+    | { type: "validate"; data: PackedRows; config: ImporterConfig }
+    | { type: "profile"; data: PackedRows; dataTypeConfig: DataTypeConfig }
+
+export type ImportWorkerRequest = ImportWorkerTask & { id: number }
+
+export type ImportWorkerResponse =
+    | { id: number; type: "progress"; progress: ImportProgress }
+    | { id: number; type: "result"; result: unknown }
+    | { id: number; type: "error"; message: string }
+
+/**
+ * Splits row sources and cell formats off so rows can be posted to or from the worker
+ */
+export function packRows(rows: Record<string, unknown>[]): PackedRows {
+    return {
+        rows,
+        sources: rows.map((row) => getRowSource(row)),
+        formats: rows.map((row) => getCellFormats(row)),
+    }
+}
+
+/**
+ * Re-attaches row sources and cell formats after rows were received from the worker
+ */
+export function unpackRows({ rows, sources, formats }: PackedRows): Record<string, unknown>[] {
+    rows.forEach((row, index) => {
+        setRowSource(row, sources[index])
+        setCellFormats(row, formats[index])
+    })
+    return rows
+}
@@ -0,0 +1,77 @@
+import type * as XLSX from "xlsx"
+import { getSheetSummaries, parseWorkbookSheets, readWorkbookData } from "./excel-utils"
+import { validateSchema } from "./schema-validation"
+import { validateData } from "./enhanced-validation-utils"
+import { profileData } from "./profile-utils"
+import {
+    packRows,
+    unpackRows,
+    type ImportStage,
+    type ImportWorkerRequest,
+    type ImportWorkerResponse,
+} from "./import-worker-protocol"
+
+// Workbook from the last "read" task, kept until the next file is read
+let workbook: XLSX.WorkBook | null = null
+
+function post(response: ImportWorkerResponse) {
+    self.postMessage(response)
+}
+
+self.onmessage = async (event: MessageEvent<ImportWorkerRequest>) => {
+    const request = event.data
+    const { id } = request
+
+    const reportProgress = (stage: ImportStage) => (processed: number, total: number) =>
+        post({ id, type: "progress", progress: { stage, processed, total } })
+
+    try {
+        switch (request.type) {
+            case "read": {
+                reportProgress("reading")(0, request.file.size)
+                const data = await request.file.arrayBuffer()
+                workbook = readWorkbookData(data, request.file.name, request.options.csv)
+                reportProgress("reading")(request.file.size, request.file.size)
+
+                post({ id, type: "result", result: getSheetSummaries(workbook, request.options) })
+                break
+            }
+
+            case "parse": {
+                if (!workbook) {
+                    throw new Error("No workbook has been read")
+                }
+
+                const rows = parseWorkbookSheets(workbook, request.sheetNames, request.options, reportProgress("parsing"))
+                post({ id, type: "result", result: packRows(rows) })
+                break
+            }
+
+            case "schema": {
+                const data = unpackRows(request.data)
+                reportProgress("schema")(0, data.length)
+                const result = validateSchema(data, request.config)
+                reportProgress("schema")(data.length, data.length)
+
+                post({ id, type: "result", result: { ...result, validData: packRows(result.validData) } })
+                break
+            }
+
+            case "validate": {
+                const data = unpackRows(request.data)
+                const result = validateData(data, request.config, reportProgress("validating"))
+                post({ id, type: "result", result })
+                break
+            }
+
+            case "profile": {
+                const data = unpackRows(request.data)
+                const result = profileData(data, request.dataTypeConfig, reportProgress("profiling"))
+                post({ id, type: "result", result })
+                break
+            }
+        }
+    } catch (error) {
+        post({ id, type: "error", message: error instanceof Error ? error.message : String(error) })
+    }
+}
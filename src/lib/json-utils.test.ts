@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest"
+import { flattenRecord, parseJsonRecords, parseNdjsonRecords } from "./json-utils"
+
+describe("flattenRecord", () => {
+    it("flattens nested objects to dot paths and keeps arrays as JSON text", () => {
+        expect(flattenRecord({ id: 1, customer: { name: "Anna", address: { city: "Berlin" } }, tags: ["a", "b"], note: null })).toEqual({
+            id: 1,
+            "customer.name": "Anna",
+            "customer.address.city": "Berlin",
+            tags: '["a","b"]',
+            note: "",
+        })
+    })
+})
+
+describe("parseJsonRecords", () => {
+    it("reads an array of objects or an object wrapping one", () => {
+        expect(parseJsonRecords('[{"id":1},{"id":2}]')).toEqual([{ id: 1 }, { id: 2 }])
+        expect(parseJsonRecords('{"bookings":[{"id":1}],"count":1}')).toEqual([{ id: 1 }])
+    })
+
+    it("rejects arrays of other values", () => {
+        expect(() => parseJsonRecords("[1, 2]")).toThrow(/not an object/)
+        expect(() => parseJsonRecords("{")).toThrow(/Invalid JSON/)
+    })
+})
+
+describe("parseNdjsonRecords", () => {
+    it("reads one object per line and skips blank lines", () => {
+        expect(parseNdjsonRecords('{"id":1}\r\n\n{"id":2,"customer":{"name":"Ben"}}\n')).toEqual([
+            { id: 1 },
+            { id: 2, "customer.name": "Ben" },
+        ])
+    })
+
+    it("names the line that is not valid JSON", () => {
+        expect(() => parseNdjsonRecords('{"id":1}\n{id:2}')).toThrow(/line 2/)
+    })
+})
@@ -0,0 +1,139 @@
+import * as XLSX from "xlsx"
+import { decodeText } from "./csv-utils"
+
+// File extensions read as a single JSON document
+export const JSON_EXTENSIONS = [".json"]
+
+// File extensions read as one JSON record per line
+export const NDJSON_EXTENSIONS = [".ndjson", ".jsonl"]
+
+/**
+ * Check whether a file name should be read as JSON or NDJSON
+ */
+export function isJsonFileName(fileName: string): boolean {
+    const lowerName = fileName.toLowerCase()
+    return [...JSON_EXTENSIONS, ...NDJSON_EXTENSIONS].some((extension) => lowerName.endsWith(extension))
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Flatten nested objects into dot-path keys, e.g. { customer: { name } }
+ * becomes { "customer.name" }. Arrays are kept in one cell as JSON text.
+ */
+export function flattenRecord(record: Record<string, unknown>, prefix = ""): Record<string, unknown> {
+    const flat: Record<string, unknown> = {}
+
+    Object.entries(record).forEach(([key, value]) => {
+        const path = prefix ? `${prefix}.${key}` : key
+
+        if (isPlainObject(value) && Object.keys(value).length > 0) {
+            Object.assign(flat, flattenRecord(value, path))
+        } else if (Array.isArray(value) || isPlainObject(value)) {
+            flat[path] = JSON.stringify(value)
+        } else {
+            flat[path] = value ?? ""
+        }
+    })
+
+    return flat
+}
+
+/**
+ * Pull the records out of a parsed JSON document. Accepts an array of
+ * objects, an object wrapping a single array of objects (e.g. { bookings: [...] }),
+ * or a single object as one record.
+ */
+function extractRecords(document: unknown): Record<string, unknown>[] {
+    if (Array.isArray(document)) {
+        return document.map((item, index) => {
+            if (!isPlainObject(item)) {
+                throw new Error(`Item ${index + 1} of the JSON array is not an object`)
+            }
+            return item
+        })
+    }
+
+    if (isPlainObject(document)) {
+        const arrays = Object.values(document).filter(
+            (value): value is unknown[] => Array.isArray(value) && value.length > 0 && value.every(isPlainObject),
+        )
+        if (arrays.length === 1) {
+            return extractRecords(arrays[0])
+        }
+        return [document]
+    }
+
+    throw new Error("JSON file must contain an object or an array of objects")
+}
+
+/**
+ * Parse a JSON document into flat row objects
+ */
+export function parseJsonRecords(text: string): Record<string, unknown>[] {
+    let document: unknown
+    try {
+        document = JSON.parse(text)
+    } catch (error) {
+        throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    return extractRecords(document).map((record) => flattenRecord(record))
+}
+
+/**
+ * Parse newline-delimited JSON into flat row objects. Blank lines are skipped.
+ */
+export function parseNdjsonRecords(text: string): Record<string, unknown>[] {
+    const records: Record<string, unknown>[] = []
+
+    text.split(/\r\n|\n|\r/).forEach((line, index) => {
+        if (line.trim() === "") return
+
+        let record: unknown
+        try {
+            record = JSON.parse(line)
+        } catch (error) {
+            throw new Error(`Invalid JSON on line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`)
+        }
+
+        if (!isPlainObject(record)) {
+            throw new Error(`Line ${index + 1} is not a JSON object`)
+        }
+        records.push(flattenRecord(record))
+    })
+
+    return records
+}
+
+/**
+ * Parse a JSON or NDJSON file into a single-sheet workbook whose first row
+ * holds the union of all keys, so it goes through the normal sheet pipeline.
+ */
+export function readJsonWorkbook(data: ArrayBuffer, fileName: string): XLSX.WorkBook {
+    const { text } = decodeText(data)
+    const lowerName = fileName.toLowerCase()
+    const records = NDJSON_EXTENSIONS.some((extension) => lowerName.endsWith(extension))
+        ? parseNdjsonRecords(text)
+        : parseJsonRecords(text)
+
+    // Keys in first-seen order, so records with extra fields add columns at the end
+    const headers: string[] = []
+    const seen = new Set<string>()
+    records.forEach((record) => {
+        Object.keys(record).forEach((key) => {
+            if (!seen.has(key)) {
+                seen.add(key)
+                headers.push(key)
+            }
+        })
+    })
+
+    const rows = records.map((record) => headers.map((header) => record[header] ?? ""))
+    const worksheet = XLSX.utils.aoa_to_sheet(headers.length > 0 ? [headers, ...rows] : [])
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, worksheet, "Sheet1")
+    return workbook
+}
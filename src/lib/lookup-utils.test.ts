@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest"
+import type { LookupTable } from "./types"
+import {
+    createCachedLookupTable,
+    findSimilarValues,
+    LOOKUP_CACHE_TTL_MS,
+    matchesLookupTable,
+    needsLookupReload,
+    parseLookupJson,
+} from "./lookup-utils"
+
+const table: LookupTable = { name: "vehicle_types", source: "public", location: "/lookups/vehicle-types.json" }
+
+describe("createCachedLookupTable", () => {
+    it("only increases the version when the values change", () => {
+        const first = createCachedLookupTable(table, ["Sedan", "SUV"], table.location || "")
+        expect(first.version).toBe(1)
+        expect(createCachedLookupTable(table, ["Sedan", "SUV"], "", first).version).toBe(1)
+        expect(createCachedLookupTable(table, ["Sedan", "Van"], "", first).version).toBe(2)
+    })
+})
+
+describe("needsLookupReload", () => {
+    const cached = createCachedLookupTable(table, ["Sedan"], table.location || "")
+
+    it("keeps fresh values loaded for the same location", () => {
+        expect(matchesLookupTable(table, cached)).toBe(true)
+        expect(needsLookupReload(table, cached)).toBe(false)
+    })
+
+    it("reloads missing, expired or repointed tables", () => {
+        expect(needsLookupReload(table, undefined)).toBe(true)
+        expect(needsLookupReload(table, cached, cached.loadedAt + LOOKUP_CACHE_TTL_MS)).toBe(true)
+        expect(needsLookupReload({ ...table, location: "/lookups/other.json" }, cached)).toBe(true)
+        expect(needsLookupReload({ ...table, source: "endpoint" }, cached)).toBe(true)
+        expect(needsLookupReload({ ...table, valueColumn: "code" }, cached)).toBe(true)
+    })
+
+    it("never fetches uploaded tables", () => {
+        expect(needsLookupReload({ name: "codes", source: "upload" }, undefined)).toBe(false)
+    })
+})
+
+describe("parseLookupJson", () => {
+    it("reads plain arrays and the value column of objects", () => {
+        expect(parseLookupJson('["Sedan", "SUV"]')).toEqual(["Sedan", "SUV"])
+        expect(parseLookupJson('[{"code":"S","label":"Sedan"}]', "label")).toEqual(["Sedan"])
+    })
+})
+
+describe("findSimilarValues", () => {
+    it("suggests values a few edits away", () => {
+        expect(findSimilarValues("sedna", ["Sedan", "SUV", "Van"])).toContain("Sedan")
+    })
+})
@@ -0,0 +1,211 @@
+import * as XLSX from "xlsx"
+import type { CachedLookupTable, ImporterConfig, LookupTable } from "./types"
+import { decodeText } from "./csv-utils"
+import { readWorkbookData } from "./excel-utils"
+import { isJsonFileName } from "./json-utils"
+
+// Most "did you mean" values suggested for a value missing from a lookup table
+const MAX_SUGGESTIONS = 3
+
+// Sets of the loaded tables, so large tables are not scanned for every cell
+const valueSets = new WeakMap<string[], Set<string>>()
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Distinct, trimmed, non-empty values of a table. Entries may be plain values
+ * or records, whose value is read from valueColumn or their first field.
+ */
+function extractValues(entries: unknown[], valueColumn?: string): string[] {
+    const values = entries.map((entry) => {
+        if (!isPlainObject(entry)) return entry
+        return valueColumn ? entry[valueColumn] : Object.values(entry)[0]
+    })
+
+    return [
+        ...new Set(
+            values
+                .filter((value) => value !== undefined && value !== null && typeof value !== "object")
+                .map((value) => String(value).trim())
+                .filter(Boolean),
+        ),
+    ]
+}
+
+/**
+ * Values of a JSON lookup table: an array of values or records, or an object
+ * holding one such array, e.g. { "vehicleTypes": ["Sedan", "SUV"] }
+ */
+export function parseLookupJson(text: string, valueColumn?: string): string[] {
+    let document: unknown
+    try {
+        document = JSON.parse(text)
+    } catch (error) {
+        throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    if (Array.isArray(document)) return extractValues(document, valueColumn)
+    if (isPlainObject(document)) {
+        const arrays = Object.values(document).filter(Array.isArray)
+        if (arrays.length === 1) return extractValues(arrays[0], valueColumn)
+    }
+    throw new Error("Lookup JSON must be an array of values or an object with one array")
+}
+
+/**
+ * Values of a lookup table from file contents. JSON is read by parseLookupJson,
+ * other files as a sheet whose header row names the value column.
+ */
+export function readLookupValues(data: ArrayBuffer, fileName: string, valueColumn?: string): string[] {
+    if (isJsonFileName(fileName)) {
+        return parseLookupJson(decodeText(data).text, valueColumn)
+    }
+
+    const workbook = readWorkbookData(data, fileName)
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]]
+    if (!worksheet) return []
+
+    const records = XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet, { defval: "", raw: false })
+    if (valueColumn && records.length > 0 && !(valueColumn in records[0])) {
+        throw new Error(`Column "${valueColumn}" not found in ${fileName}`)
+    }
+    return extractValues(records, valueColumn)
+}
+
+/**
+ * Load a lookup table from its JSON file in public/ or its endpoint. Files
+ * are revalidated with the server so a changed list is picked up on reload.
+ */
+export async function fetchLookupValues(table: LookupTable): Promise<string[]> {
+    if (table.source === "upload" || !table.location) {
+        throw new Error(`Lookup table "${table.name}" has no location to load from`)
+    }
+
+    const response = await fetch(table.location, { cache: "no-cache" })
+    if (!response.ok) {
+        throw new Error(`Could not load lookup table "${table.name}": ${response.status} ${response.statusText}`)
+    }
+
+    // Endpoints answer JSON unless their path names another file type
+    const path = new URL(table.location, "http://localhost").pathname
+    const fileName = /\.[a-z]+$/i.test(path) ? path : `${table.name}.json`
+    return readLookupValues(await response.arrayBuffer(), fileName, table.valueColumn)
+}
+
+/**
+ * Fingerprint of a table's values, used to tell whether a reload changed them
+ */
+export function getLookupChecksum(values: string[]): string {
+    // 32-bit FNV-1a over the values in order
+    let hash = 0x811c9dc5
+    for (const char of values.join("\n")) {
+        hash ^= char.codePointAt(0) || 0
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return (hash >>> 0).toString(16).padStart(8, "0")
+}
+
+// How long values loaded from public/ or an endpoint are used before they are fetched again
+export const LOOKUP_CACHE_TTL_MS = 10 * 60 * 1000
+
+/**
+ * Cache entry for freshly loaded values. The version only increases when the
+ * values differ from the cached ones.
+ */
+export function createCachedLookupTable(
+    table: LookupTable,
+    values: string[],
+    origin: string,
+    previous?: CachedLookupTable,
+): CachedLookupTable {
+    const checksum = getLookupChecksum(values)
+    const version = previous ? (previous.checksum === checksum ? previous.version : previous.version + 1) : 1
+    return { values, version, checksum, loadedAt: Date.now(), origin, source: table.source, valueColumn: table.valueColumn }
+}
+
+/**
+ * Check whether cached values were loaded with the table's current source,
+ * location and value column. Uploaded tables are matched by source only.
+ */
+export function matchesLookupTable(table: LookupTable, cached: CachedLookupTable | undefined): cached is CachedLookupTable {
+    if (!cached || cached.source !== table.source || (cached.valueColumn || "") !== (table.valueColumn || "")) {
+        return false
+    }
+    return table.source === "upload" || cached.origin === table.location
+}
+
+/**
+ * Check whether a table should be fetched again: it loads from public/ or an
+ * endpoint and its cached values are missing, do not match its configuration
+ * or are older than the cache TTL
+ */
+export function needsLookupReload(table: LookupTable, cached: CachedLookupTable | undefined, now = Date.now()): boolean {
+    if (table.source === "upload" || !table.location) return false
+    return !matchesLookupTable(table, cached) || now - cached.loadedAt >= LOOKUP_CACHE_TTL_MS
+}
+
+/**
+ * Configuration with the cached values of its lookup tables attached, ready
+ * to be passed to validateData. Values loaded for another source or location
+ * are left out.
+ */
+export function withLookupValues(config: ImporterConfig, tables: Record<string, CachedLookupTable>): ImporterConfig {
+    const loaded = (config.lookupTables || []).filter((table) => matchesLookupTable(table, tables[table.name]))
+    return {
+        ...config,
+        lookupValues: Object.fromEntries(loaded.map((table) => [table.name, tables[table.name].values])),
+    }
+}
+
+/**
+ * Check whether a value is in a loaded table
+ */
+export function isLookupValue(value: string, values: string[]): boolean {
+    let set = valueSets.get(values)
+    if (!set) {
+        set = new Set(values)
+        valueSets.set(values, set)
+    }
+    return set.has(value)
+}
+
+/**
+ * Edit distance between two strings: insertions, deletions, substitutions
+ * and swaps of neighbouring characters, so "sedna" is one edit from "sedan"
+ */
+function editDistance(a: string, b: string): number {
+    let beforePrevious: number[] = []
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i]
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                current[j] = Math.min(current[j], beforePrevious[j - 2] + 1)
+            }
+        }
+        beforePrevious = previous
+        previous = current
+    }
+    return previous[b.length]
+}
+
+/**
+ * Table values close to a value that is not in the table, nearest first.
+ * Case and surrounding spaces are ignored; about one typo per three
+ * characters is tolerated.
+ */
+export function findSimilarValues(value: string, values: string[], limit = MAX_SUGGESTIONS): string[] {
+    const needle = value.trim().toLowerCase()
+    const maxDistance = Math.max(1, Math.floor(needle.length / 3))
+
+    return values
+        .map((candidate) => ({ candidate, distance: editDistance(needle, candidate.toLowerCase()) }))
+        .filter(({ distance }) => distance <= maxDistance)
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, limit)
+        .map(({ candidate }) => candidate)
+}
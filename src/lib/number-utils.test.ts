@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest"
+import { parseLocaleNumber } from "./number-utils"
+import { defaultDataTypeConfig } from "./default-config"
+
+const english = defaultDataTypeConfig.number
+const german = { ...english, decimalSeparator: ",", thousandsSeparator: "." }
+const french = { ...english, decimalSeparator: ",", thousandsSeparator: " " }
+
+describe("parseLocaleNumber", () => {
+    it("reads the configured separators", () => {
+        expect(parseLocaleNumber("1,234.56", english)?.value).toBe(1234.56)
+        expect(parseLocaleNumber("1.234,56", german)?.value).toBe(1234.56)
+    })
+
+    it("accepts no-break spaces when spaces group digits", () => {
+        expect(parseLocaleNumber("1\u202F234,56", french)?.value).toBe(1234.56)
+        expect(parseLocaleNumber("1 234,56", german)).toBeNull()
+    })
+
+    it("rejects badly grouped digits", () => {
+        expect(parseLocaleNumber("1,2345", english)).toBeNull()
+        expect(parseLocaleNumber("12abc", english)).toBeNull()
+    })
+
+    it("accepts Indian grouping", () => {
+        expect(parseLocaleNumber("1,20,000", english)?.value).toBe(120000)
+    })
+
+    it("strips currency symbols and codes", () => {
+        expect(parseLocaleNumber("$1,200.50", english)?.value).toBe(1200.5)
+        expect(parseLocaleNumber("EUR 15", english)?.value).toBe(15)
+    })
+
+    it("reads accounting brackets and minus signs as negative", () => {
+        expect(parseLocaleNumber("(42.50)", english)?.value).toBe(-42.5)
+        expect(parseLocaleNumber("−7", english)?.value).toBe(-7)
+    })
+
+    it("reads percentages as fractions only when allowed", () => {
+        expect(parseLocaleNumber("15%", english)).toMatchObject({ value: 0.15, percent: true })
+        expect(parseLocaleNumber("15%", { ...english, allowPercent: false })).toBeNull()
+    })
+})
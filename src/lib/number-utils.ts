@@ -0,0 +1,191 @@
+import type { NumberTypeConfig } from "./types"
+
+// Spaces accepted as a thousands separator, including the no-break spaces Excel and browsers emit
+const SPACE_SEPARATORS = [" ", "\u00A0", "\u202F"]
+
+// Minus signs that show up in pasted numbers besides the ASCII hyphen
+const MINUS_SIGNS = ["-", "\u2212"]
+
+export interface ParsedNumber {
+    value: number
+    // Digits after the decimal separator as written, used by format checks
+    decimals: number
+    grouped: boolean
+    percent: boolean
+}
+
+// What a number format code such as #,##0.00 or 0.0% asks of a value
+interface NumberFormatSpec {
+    minDecimals: number
+    maxDecimals: number
+    grouping: boolean
+    percent: boolean
+}
+
+function describeDecimals(count: number): string {
+    return `${count} decimal ${count === 1 ? "place" : "places"}`
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+function getThousandsSeparators(config: NumberTypeConfig): string[] {
+    const separator = config.thousandsSeparator ?? ","
+    if (!separator || separator === (config.decimalSeparator || ".")) return []
+    return SPACE_SEPARATORS.includes(separator) ? SPACE_SEPARATORS : [separator]
+}
+
+/**
+ * Remove a leading or trailing currency symbol or code, e.g. "Rs. 1,200",
+ * "1.200 €" or "USD 5". Codes are matched ignoring case.
+ */
+function stripCurrency(text: string, currencySymbols: string[]): string {
+    // Longest first so "US$" is not left as "US" after stripping "$"
+    const symbols = [...currencySymbols].filter(Boolean).sort((a, b) => b.length - a.length)
+    for (const symbol of symbols) {
+        const escaped = escapeRegExp(symbol)
+        const leading = new RegExp(`^${escaped}\\.?\\s*`, "i")
+        const trailing = new RegExp(`\\s*${escaped}\\.?$`, "i")
+        if (leading.test(text)) return text.replace(leading, "")
+        if (trailing.test(text)) return text.replace(trailing, "")
+    }
+    return text
+}
+
+function stripSign(text: string): { text: string; negative: boolean } {
+    const sign = [...MINUS_SIGNS, "+"].find((s) => text.startsWith(s))
+    return sign ? { text: text.slice(sign.length).trim(), negative: sign !== "+" } : { text, negative: false }
+}
+
+/**
+ * Parse a number written with the configured decimal and thousands separators.
+ * Currency symbols and codes, accounting brackets for negatives and, when
+ * allowed, a trailing percent sign (15% is 0.15) are accepted. Digit groups
+ * must be well formed, so "1,2345" is rejected; Indian grouping (1,20,000) is allowed.
+ */
+export function parseLocaleNumber(text: string, config: NumberTypeConfig): ParsedNumber | null {
+    let rest = text.trim()
+    let negative = false
+
+    // Accounting style negatives: (1,200.00)
+    if (/^\(.*\)$/.test(rest)) {
+        negative = true
+        rest = rest.slice(1, -1).trim()
+    }
+
+    // The sign may come before or after the currency: -$5 or $-5
+    const outerSign = stripSign(rest)
+    const innerSign = stripSign(stripCurrency(outerSign.text, config.currencySymbols || []).trim())
+    if (outerSign.negative && innerSign.negative) return null
+    if (outerSign.negative || innerSign.negative) negative = !negative
+    rest = innerSign.text
+
+    const percent = rest.endsWith("%")
+    if (percent) {
+        if (!config.allowPercent) return null
+        rest = rest.slice(0, -1).trim()
+    }
+
+    const decimal = escapeRegExp(config.decimalSeparator || ".")
+    const thousands = getThousandsSeparators(config).map(escapeRegExp).join("|")
+    const integer = thousands ? `\\d{1,3}(?:(?:${thousands})\\d{2})*(?:(?:${thousands})\\d{3})+|\\d+` : "\\d+"
+    const pattern = new RegExp(`^(?:(${integer})(?:${decimal}(\\d*))?|${decimal}(\\d+))(?:[eE][+-]?\\d+)?$`)
+
+    const match = pattern.exec(rest)
+    if (!match) return null
+
+    const integerDigits = (match[1] || "0").replace(/\D/g, "")
+    const fraction = match[2] ?? match[3] ?? ""
+    const exponent = rest.match(/[eE][+-]?\d+$/)?.[0] || ""
+    let value = Number(`${integerDigits}.${fraction || "0"}${exponent}`)
+    if (!Number.isFinite(value)) return null
+
+    if (percent) value = Number((value / 100).toPrecision(15))
+    return {
+        value: negative ? -value : value,
+        decimals: fraction.length,
+        grouped: integerDigits.length !== (match[1] || "0").length,
+        percent,
+    }
+}
+
+/**
+ * Convert a cell value to a number: numbers as they are and strings through
+ * the locale settings
+ */
+export function toNumberValue(value: unknown, config: NumberTypeConfig): number | null {
+    if (typeof value === "number") return Number.isFinite(value) ? value : null
+    if (typeof value === "string") return parseLocaleNumber(value, config)?.value ?? null
+    return null
+}
+
+/**
+ * Normalize a number cell to a real number. Unparseable values are returned unchanged.
+ */
+export function normalizeNumberValue(value: unknown, config: NumberTypeConfig): unknown {
+    return toNumberValue(value, config) ?? value
+}
+
+/**
+ * Example of a number written with the configured separators, for hints
+ */
+export function formatNumberExample(config: NumberTypeConfig): string {
+    const thousands = getThousandsSeparators(config)[0] ?? ""
+    return `1${thousands}234${config.decimalSeparator || "."}5`
+}
+
+/**
+ * Read the first section of an Excel number format, ignoring quoted text,
+ * escaped characters and bracketed colours or conditions
+ */
+function parseNumberFormat(format: string): NumberFormatSpec | null {
+    const section = format
+        .split(";")[0]
+        .replace(/"[^"]*"/g, "")
+        .replace(/\\./g, "")
+        .replace(/\[[^\]]*\]/g, "")
+    if (!/[0#?]/.test(section)) return null
+
+    const [integerPart, fractionPart = ""] = section.split(".")
+    return {
+        minDecimals: (fractionPart.match(/0/g) || []).length,
+        maxDecimals: (fractionPart.match(/[0#?]/g) || []).length,
+        grouping: integerPart.includes(","),
+        percent: section.includes("%"),
+    }
+}
+
+/**
+ * Check a value against a number format such as #,##0.00. Text must have the
+ * decimal places the format asks for, may only group digits when the format
+ * does and must be a percentage exactly when the format is. Numeric cells
+ * only need to fit the decimal places. Returns the reason for a mismatch.
+ */
+export function getNumberFormatError(value: unknown, format: string, config: NumberTypeConfig): string | null {
+    const spec = parseNumberFormat(format)
+    if (!spec) return null
+
+    if (typeof value === "number") {
+        const scaled = spec.percent ? value * 100 : value
+        const decimals = (String(Number(scaled.toPrecision(15))).split(".")[1] || "").length
+        return decimals > spec.maxDecimals ? `has ${describeDecimals(decimals)}, at most ${spec.maxDecimals} allowed` : null
+    }
+
+    if (typeof value !== "string") return null
+    const parsed = parseLocaleNumber(value, { ...config, allowPercent: true })
+    // Values that are not numbers at all are reported by the type check
+    if (!parsed) return null
+
+    if (parsed.percent !== spec.percent) {
+        return spec.percent ? "must be a percentage" : "must not be a percentage"
+    }
+    if (parsed.grouped && !spec.grouping) {
+        return "must not use digit grouping"
+    }
+    if (parsed.decimals < spec.minDecimals || parsed.decimals > spec.maxDecimals) {
+        const expected = spec.minDecimals === spec.maxDecimals ? spec.maxDecimals : `${spec.minDecimals} to ${spec.maxDecimals}`
+        return `has ${describeDecimals(parsed.decimals)}, expected ${expected}`
+    }
+    return null
+}
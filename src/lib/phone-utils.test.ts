@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+import { formatPhoneNumber, normalizePhoneValue, parsePhoneNumber } from "./phone-utils"
+
+describe("parsePhoneNumber", () => {
+    it("reads national numbers of the default country", () => {
+        expect(parsePhoneNumber("(201) 555-0123", "US")).toMatchObject({ status: "valid", e164: "+12015550123" })
+        expect(parsePhoneNumber("07400 123456", "GB")).toMatchObject({ status: "valid", e164: "+447400123456" })
+    })
+
+    it("reads international numbers written with + or 00", () => {
+        expect(parsePhoneNumber("+44 7400 123456", "US")).toMatchObject({ status: "valid", e164: "+447400123456" })
+        expect(parsePhoneNumber("0044 7400 123456", "US")).toMatchObject({ status: "valid", e164: "+447400123456" })
+    })
+
+    it("rejects text and suggests countries a number would be valid for", () => {
+        expect(parsePhoneNumber("call me", "US")).toEqual({ status: "invalid", candidates: [] })
+
+        const result = parsePhoneNumber("07400 123456", "US")
+        expect(result.status).toBe("invalid")
+        if (result.status === "invalid") {
+            expect(result.candidates.map((candidate) => candidate.e164)).toContain("+447400123456")
+        }
+    })
+})
+
+describe("normalizePhoneValue", () => {
+    it("normalizes valid numbers to E.164 and leaves others unchanged", () => {
+        expect(normalizePhoneValue("201-555-0123", "US")).toBe("+12015550123")
+        expect(normalizePhoneValue("12", "US")).toBe("12")
+    })
+})
+
+describe("formatPhoneNumber", () => {
+    it("fills the format with the national number", () => {
+        expect(formatPhoneNumber("+12015550123", "(###) ###-####", "US")).toBe("(201) 555-0123")
+    })
+})
@@ -0,0 +1,209 @@
+export interface PhoneCountry {
+    // ISO 3166-1 alpha-2 code
+    code: string
+    name: string
+    callingCode: string
+    // Valid national significant numbers, without the trunk prefix
+    pattern: RegExp
+    // Digit dialled before national numbers inside the country, e.g. the 0 in 020 7946 0018
+    trunkPrefix?: string
+    // National significant number used for examples and hints
+    example: string
+}
+
+export interface PhoneCandidate {
+    country: PhoneCountry
+    e164: string
+}
+
+export type PhoneParseResult =
+    | { status: "valid"; e164: string; callingCode: string; nationalNumber: string; country?: PhoneCountry }
+    // Not a valid number for the default country; candidates are countries it would be valid for
+    | { status: "invalid"; candidates: PhoneCandidate[] }
+
+// Country rules are approximations of the national numbering plans: they check
+// length and leading digits, not whether a number is actually assigned
+export const PHONE_COUNTRIES: PhoneCountry[] = [
+    { code: "US", name: "United States", callingCode: "1", pattern: /^[2-9]\d{2}[2-9]\d{6}$/, trunkPrefix: "1", example: "2015550123" },
+    { code: "CA", name: "Canada", callingCode: "1", pattern: /^[2-9]\d{2}[2-9]\d{6}$/, trunkPrefix: "1", example: "5062345678" },
+    { code: "GB", name: "United Kingdom", callingCode: "44", pattern: /^[1-9]\d{8,9}$/, trunkPrefix: "0", example: "7400123456" },
+    { code: "IE", name: "Ireland", callingCode: "353", pattern: /^[1-9]\d{6,8}$/, trunkPrefix: "0", example: "850123456" },
+    { code: "DE", name: "Germany", callingCode: "49", pattern: /^[1-9]\d{5,12}$/, trunkPrefix: "0", example: "15123456789" },
+    { code: "FR", name: "France", callingCode: "33", pattern: /^[1-9]\d{8}$/, trunkPrefix: "0", example: "612345678" },
+    { code: "ES", name: "Spain", callingCode: "34", pattern: /^[6-9]\d{8}$/, example: "612345678" },
+    { code: "IT", name: "Italy", callingCode: "39", pattern: /^(?:0\d{5,10}|3\d{8,9})$/, example: "3123456789" },
+    { code: "NL", name: "Netherlands", callingCode: "31", pattern: /^[1-9]\d{8}$/, trunkPrefix: "0", example: "612345678" },
+    { code: "AU", name: "Australia", callingCode: "61", pattern: /^[2-478]\d{8}$/, trunkPrefix: "0", example: "412345678" },
+    { code: "NZ", name: "New Zealand", callingCode: "64", pattern: /^[2-9]\d{7,9}$/, trunkPrefix: "0", example: "211234567" },
+    { code: "IN", name: "India", callingCode: "91", pattern: /^[1-9]\d{9}$/, trunkPrefix: "0", example: "8123456789" },
+    { code: "PK", name: "Pakistan", callingCode: "92", pattern: /^[1-9]\d{8,9}$/, trunkPrefix: "0", example: "3012345678" },
+    { code: "BD", name: "Bangladesh", callingCode: "880", pattern: /^[1-9]\d{7,9}$/, trunkPrefix: "0", example: "1812345678" },
+    { code: "LK", name: "Sri Lanka", callingCode: "94", pattern: /^[1-9]\d{8}$/, trunkPrefix: "0", example: "712345678" },
+    { code: "NP", name: "Nepal", callingCode: "977", pattern: /^(?:9[678]\d{8}|[1-8]\d{6,7})$/, trunkPrefix: "0", example: "9841234567" },
+    { code: "AE", name: "United Arab Emirates", callingCode: "971", pattern: /^[2-9]\d{7,8}$/, trunkPrefix: "0", example: "501234567" },
+    { code: "SA", name: "Saudi Arabia", callingCode: "966", pattern: /^[1-9]\d{7,8}$/, trunkPrefix: "0", example: "512345678" },
+    { code: "SG", name: "Singapore", callingCode: "65", pattern: /^[689]\d{7}$/, example: "81234567" },
+    { code: "MY", name: "Malaysia", callingCode: "60", pattern: /^[1-9]\d{7,9}$/, trunkPrefix: "0", example: "123456789" },
+    { code: "CN", name: "China", callingCode: "86", pattern: /^(?:1[3-9]\d{9}|[2-9]\d{9,10})$/, trunkPrefix: "0", example: "13123456789" },
+    { code: "JP", name: "Japan", callingCode: "81", pattern: /^[1-9]\d{8,9}$/, trunkPrefix: "0", example: "9012345678" },
+    { code: "BR", name: "Brazil", callingCode: "55", pattern: /^[1-9]{2}\d{8,9}$/, trunkPrefix: "0", example: "11961234567" },
+    { code: "MX", name: "Mexico", callingCode: "52", pattern: /^[1-9]\d{9}$/, example: "2221234567" },
+    { code: "ZA", name: "South Africa", callingCode: "27", pattern: /^[1-9]\d{8}$/, trunkPrefix: "0", example: "711234567" },
+]
+
+// E.164 numbers have at most 15 digits; shorter than 8 is not a full international number
+const MIN_E164_DIGITS = 8
+const MAX_E164_DIGITS = 15
+
+// Most countries a wrong-country suggestion names
+const MAX_SUGGESTED_COUNTRIES = 3
+
+/**
+ * Look up a country by its ISO code
+ */
+export function getPhoneCountry(code: string | undefined): PhoneCountry | undefined {
+    return code ? PHONE_COUNTRIES.find((country) => country.code === code.toUpperCase()) : undefined
+}
+
+/**
+ * National significant number for a country, or null when the digits are not
+ * valid there. The trunk prefix is dropped when the number starts with it.
+ */
+function getNationalNumber(digits: string, country: PhoneCountry): string | null {
+    if (country.pattern.test(digits)) return digits
+    if (country.trunkPrefix && digits.startsWith(country.trunkPrefix)) {
+        const national = digits.slice(country.trunkPrefix.length)
+        if (country.pattern.test(national)) return national
+    }
+    return null
+}
+
+function validResult(callingCode: string, nationalNumber: string, country?: PhoneCountry): PhoneParseResult {
+    return { status: "valid", e164: `+${callingCode}${nationalNumber}`, callingCode, nationalNumber, country }
+}
+
+/**
+ * Parse a number written with a leading + or 00 and a country calling code.
+ * Numbers for countries without rules only get an E.164 length check.
+ */
+function parseInternational(digits: string, defaultCountry?: PhoneCountry): PhoneParseResult {
+    // Prefer the default country when several share a calling code, e.g. US and Canada
+    const countries = [...PHONE_COUNTRIES].sort((a, b) => Number(b === defaultCountry) - Number(a === defaultCountry))
+
+    for (const country of countries) {
+        if (!digits.startsWith(country.callingCode)) continue
+        // "+44 (0)20 ..." keeps the trunk prefix after the calling code
+        const national = getNationalNumber(digits.slice(country.callingCode.length), country)
+        return national ? validResult(country.callingCode, national, country) : { status: "invalid", candidates: [] }
+    }
+
+    if (digits.length < MIN_E164_DIGITS || digits.length > MAX_E164_DIGITS) return { status: "invalid", candidates: [] }
+    return { status: "valid", e164: `+${digits}`, callingCode: "", nationalNumber: digits }
+}
+
+/**
+ * Countries the digits would be valid for, written with their calling code
+ * but without the + or in their national form
+ */
+function findCandidates(digits: string, defaultCountry?: PhoneCountry): PhoneCandidate[] {
+    const candidates: PhoneCandidate[] = []
+    PHONE_COUNTRIES.forEach((country) => {
+        if (country.callingCode === defaultCountry?.callingCode) return
+        const national =
+            (digits.startsWith(country.callingCode) && getNationalNumber(digits.slice(country.callingCode.length), country)) ||
+            (country.trunkPrefix && digits.startsWith(country.trunkPrefix) && getNationalNumber(digits, country))
+        if (national) candidates.push({ country, e164: `+${country.callingCode}${national}` })
+    })
+    return candidates
+}
+
+/**
+ * Parse a phone number as typed. Numbers with + or 00 are read as
+ * international; other numbers as national numbers of the default country,
+ * with or without its trunk prefix or calling code.
+ */
+export function parsePhoneNumber(text: string, defaultCountryCode?: string): PhoneParseResult {
+    const defaultCountry = getPhoneCountry(defaultCountryCode)
+    const trimmed = text.trim()
+    if (!/^\+?[\d\s().\-/]+$/.test(trimmed)) return { status: "invalid", candidates: [] }
+
+    const digits = trimmed.replace(/\D/g, "")
+    if (trimmed.startsWith("+")) return parseInternational(digits, defaultCountry)
+    if (digits.startsWith("00")) return parseInternational(digits.slice(2), defaultCountry)
+
+    if (defaultCountry) {
+        const national = getNationalNumber(digits, defaultCountry)
+        if (national) return validResult(defaultCountry.callingCode, national, defaultCountry)
+
+        // Calling code written without the +, e.g. 919876543210 for India
+        if (digits.startsWith(defaultCountry.callingCode)) {
+            const withoutCode = getNationalNumber(digits.slice(defaultCountry.callingCode.length), defaultCountry)
+            if (withoutCode) return validResult(defaultCountry.callingCode, withoutCode, defaultCountry)
+        }
+    } else if (digits.length >= MIN_E164_DIGITS && digits.length <= MAX_E164_DIGITS) {
+        // Without a default country only complete international numbers can be read
+        return parseInternational(digits)
+    }
+
+    return { status: "invalid", candidates: findCandidates(digits, defaultCountry) }
+}
+
+/**
+ * Hint for a number that is not valid for the default country, naming the
+ * countries it looks valid for
+ */
+export function getPhoneSuggestion(candidates: PhoneCandidate[], defaultCountryCode?: string): string {
+    const defaultCountry = getPhoneCountry(defaultCountryCode)
+
+    if (candidates.length === 1) {
+        return `This looks like a ${candidates[0].country.name} number; enter it as ${candidates[0].e164}`
+    }
+    if (candidates.length > 1) {
+        const names = candidates.slice(0, MAX_SUGGESTED_COUNTRIES).map((candidate) => candidate.country.name)
+        if (candidates.length > MAX_SUGGESTED_COUNTRIES) names.push("another country")
+        return `This may be a number from ${names.join(", ").replace(/, ([^,]+)$/, " or $1")}; enter it with its country code, starting with +`
+    }
+    if (defaultCountry) {
+        return `Enter a ${defaultCountry.name} number such as ${formatPhoneNumber(`+${defaultCountry.callingCode}${defaultCountry.example}`)}, or include the country code starting with +`
+    }
+    return "Enter the number with its country code, starting with +"
+}
+
+/**
+ * Normalize a phone cell to E.164, e.g. +919876543210. Values that are not
+ * valid numbers are returned unchanged.
+ */
+export function normalizePhoneValue(value: unknown, defaultCountryCode?: string): unknown {
+    if (typeof value !== "string" && typeof value !== "number") return value
+    const parsed = parsePhoneNumber(String(value), defaultCountryCode)
+    return parsed.status === "valid" ? parsed.e164 : value
+}
+
+/**
+ * Fill the # placeholders of a format with digits
+ */
+function fillPattern(format: string, digits: string): string {
+    let index = 0
+    return format.replace(/#/g, () => digits[index++])
+}
+
+/**
+ * Format a phone number for display or export. "#" placeholders are filled
+ * with the national number for numbers of the default country, or with all
+ * digits including the calling code when the counts match, e.g. "+## #### ######".
+ * Without a format, or when the digits do not fit, the E.164 form is used.
+ */
+export function formatPhoneNumber(value: unknown, format?: string | null, defaultCountryCode?: string): string {
+    if (typeof value !== "string" && typeof value !== "number") return String(value ?? "")
+    const parsed = parsePhoneNumber(String(value), defaultCountryCode)
+    if (parsed.status === "invalid") return String(value)
+
+    const placeholders = (format?.match(/#/g) || []).length
+    const defaultCountry = getPhoneCountry(defaultCountryCode)
+    if (format && placeholders > 0) {
+        const isDomestic = !defaultCountryCode || parsed.callingCode === defaultCountry?.callingCode
+        if (isDomestic && placeholders === parsed.nationalNumber.length) return fillPattern(format, parsed.nationalNumber)
+        if (placeholders === parsed.e164.length - 1) return fillPattern(format, parsed.e164.slice(1))
+    }
+    return parsed.e164
+}
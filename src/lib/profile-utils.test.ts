@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+import { getValuePattern, profileData } from "./profile-utils"
+import { defaultDataTypeConfig } from "./default-config"
+
+describe("getValuePattern", () => {
+    it("replaces digits and letters by their class", () => {
+        expect(getValuePattern("AB-1234x")).toBe("AA-9999a")
+    })
+})
+
+describe("profileData", () => {
+    const rows = [
+        { amount: "1,200.50", booked: "2025-04-03", phone: "(201) 555-0123", note: "" },
+        { amount: "35", booked: "2025-04-05", phone: "201-555-0199", note: "late" },
+        { amount: "7.25", booked: "2025-04-01", phone: "+1 201 555 0100", note: "" },
+    ]
+
+    it("infers types with the type settings", () => {
+        const profiles = profileData(rows, defaultDataTypeConfig)
+        expect(profiles.map((profile) => [profile.name, profile.inferredType])).toEqual([
+            ["amount", "number"],
+            ["booked", "date"],
+            ["phone", "phone"],
+            ["note", "string"],
+        ])
+
+        const german = { ...defaultDataTypeConfig, number: { ...defaultDataTypeConfig.number, decimalSeparator: ",", thousandsSeparator: "." } }
+        expect(profileData([{ amount: "1,200.50" }], german)[0].inferredType).toBe("string")
+    })
+
+    it("reports fill rate and typed min and max", () => {
+        const [amount, booked, , note] = profileData(rows, defaultDataTypeConfig)
+        expect([amount.min, amount.max]).toEqual(["7.25", "1200.5"])
+        expect([booked.min, booked.max]).toEqual(["2025-04-01", "2025-04-05"])
+        expect([note.filled, note.total]).toEqual([1, 3])
+    })
+})
@@ -0,0 +1,241 @@
+import type { ColumnConfig, ColumnProfile, DataTypeConfig, PatternCluster, ValueCount } from "./types"
+import { formatDateValue, PROGRESS_INTERVAL, type ProgressCallback } from "./excel-utils"
+import { formatTimeValue, parseDateInput, parseDateTimeInput, toTimeValue } from "./date-utils"
+import { parseLocaleNumber } from "./number-utils"
+import { parsePhoneNumber } from "./phone-utils"
+
+type ProfiledType = ColumnConfig["type"]
+
+// Share of filled cells that must have a type for the column to get it
+const TYPE_THRESHOLD = 0.95
+
+// Types tried in order; numbers win over booleans so 0/1 columns are numbers
+const TYPE_ORDER: ProfiledType[] = ["number", "boolean", "date", "datetime", "time", "email", "phone"]
+
+const TOP_VALUES = 5
+const TOP_PATTERNS = 5
+
+// Longer patterns are cut off, so long free text does not make every cell its own cluster
+const MAX_PATTERN_LENGTH = 24
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Cheap checks before parsing, since most text is neither a date nor a time
+const DATE_LIKE = /^\d{1,4}[-/. ][\w]{1,9}[-/., ]+\d{1,4}|^[a-z]{3,9}\.? \d{1,2},? \d{4}/i
+const TIME_LIKE = /^\d{1,2}(\s*[:.]\s*\d{2}){0,2}\s*([ap]\.?m\.?)?$/i
+
+// A distinct text of a column, with the first value it was read from
+interface DistinctValue {
+    value: unknown
+    count: number
+}
+
+function isEmpty(value: unknown): boolean {
+    return value === undefined || value === null || value === ""
+}
+
+function toText(value: unknown): string {
+    return value instanceof Date ? formatDateValue(value) : String(value)
+}
+
+/**
+ * Shape of a text: digits become 9, letters a or A, other characters stay
+ */
+export function getValuePattern(text: string): string {
+    const pattern = [...text.slice(0, MAX_PATTERN_LENGTH)]
+        .map((char) => {
+            if (/\d/.test(char)) return "9"
+            // Letters of any script have distinct upper and lower case forms
+            if (char.toLowerCase() !== char.toUpperCase()) return char === char.toUpperCase() ? "A" : "a"
+            return char
+        })
+        .join("")
+    return text.length > MAX_PATTERN_LENGTH ? `${pattern}…` : pattern
+}
+
+function hasTimeOfDay(date: Date): boolean {
+    return date.getHours() !== 0 || date.getMinutes() !== 0 || date.getSeconds() !== 0
+}
+
+/**
+ * Comparable number and display text of a value of the given type, or null
+ * when the value does not have that type
+ */
+function readTyped(
+    value: unknown,
+    text: string,
+    type: ProfiledType,
+    typeConfig: DataTypeConfig,
+): { sortValue: number; label: string } | null {
+    switch (type) {
+        case "number": {
+            const number = typeof value === "number" ? value : parseLocaleNumber(text, typeConfig.number)?.value
+            return number === undefined || isNaN(number) ? null : { sortValue: number, label: String(number) }
+        }
+        case "date":
+        case "datetime": {
+            let date: Date | null = null
+            if (value instanceof Date) {
+                date = isNaN(value.getTime()) || hasTimeOfDay(value) !== (type === "datetime") ? null : value
+            } else if (typeof value === "string" && DATE_LIKE.test(text.trim())) {
+                const parsed =
+                    type === "date"
+                        ? parseDateInput(text, typeConfig.date.inputFormats)
+                        : parseDateTimeInput(text, typeConfig.datetime.inputFormats)
+                // Ambiguous dates are still dates; the first reading is used for min and max
+                if (parsed.status === "valid") date = parsed.date
+                if (parsed.status === "ambiguous") date = parsed.candidates[0].date
+            }
+            return date ? { sortValue: date.getTime(), label: formatDateValue(date) } : null
+        }
+        case "time": {
+            if (typeof value === "string" && !TIME_LIKE.test(text.trim())) return null
+            if (typeof value === "number") return null
+            const seconds = toTimeValue(value, typeConfig.time.inputFormats)
+            return seconds === null ? null : { sortValue: seconds, label: formatTimeValue(seconds) }
+        }
+        default:
+            return null
+    }
+}
+
+/**
+ * Check whether a cell has a type
+ */
+function matchesType(value: unknown, text: string, type: ProfiledType, typeConfig: DataTypeConfig): boolean {
+    switch (type) {
+        case "boolean": {
+            if (typeof value === "boolean") return true
+            const word = text.trim().toLowerCase()
+            const { trueValues, falseValues } = typeConfig.boolean
+            return [...trueValues, ...falseValues].some((v) => v.toLowerCase() === word)
+        }
+        case "email":
+            return typeof value === "string" && EMAIL_PATTERN.test(value.trim())
+        case "phone":
+            return (
+                (typeof value === "string" || typeof value === "number") &&
+                parsePhoneNumber(text, typeConfig.phone.defaultCountry).status === "valid"
+            )
+        default:
+            return readTyped(value, text, type, typeConfig) !== null
+    }
+}
+
+/**
+ * Profile one column from its distinct values
+ */
+function profileColumn(
+    name: string,
+    values: Map<string, DistinctValue>,
+    total: number,
+    typeConfig: DataTypeConfig,
+): ColumnProfile {
+    const distinct = [...values.entries()]
+    const filled = distinct.reduce((sum, [, { count }]) => sum + count, 0)
+
+    // The first type in order that enough cells have
+    let inferredType: ProfiledType = "string"
+    let typeMatchRate = filled > 0 ? 1 : 0
+    for (const type of TYPE_ORDER) {
+        if (filled === 0) break
+        const matching = distinct.reduce(
+            (sum, [text, { value, count }]) => (matchesType(value, text, type, typeConfig) ? sum + count : sum),
+            0,
+        )
+        if (matching / filled >= TYPE_THRESHOLD) {
+            inferredType = type
+            typeMatchRate = matching / filled
+            break
+        }
+    }
+
+    const topValues: ValueCount[] = distinct
+        .map(([value, { count }]) => ({ value, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, TOP_VALUES)
+
+    const patterns = new Map<string, PatternCluster>()
+    let minLength = Infinity
+    let maxLength = 0
+    let totalLength = 0
+    let min: { sortValue: number; label: string } | null = null
+    let max: { sortValue: number; label: string } | null = null
+
+    for (const [text, { value, count }] of distinct) {
+        minLength = Math.min(minLength, text.length)
+        maxLength = Math.max(maxLength, text.length)
+        totalLength += text.length * count
+
+        const pattern = getValuePattern(text)
+        const cluster = patterns.get(pattern)
+        if (cluster) {
+            cluster.count += count
+        } else {
+            patterns.set(pattern, { pattern, count, example: text })
+        }
+
+        const typed = readTyped(value, text, inferredType, typeConfig)
+        if (typed) {
+            if (!min || typed.sortValue < min.sortValue) min = typed
+            if (!max || typed.sortValue > max.sortValue) max = typed
+        }
+    }
+
+    return {
+        name,
+        inferredType,
+        typeMatchRate,
+        total,
+        filled,
+        distinct: distinct.length,
+        topValues,
+        min: min?.label,
+        max: max?.label,
+        minLength: filled > 0 ? minLength : 0,
+        maxLength,
+        averageLength: filled > 0 ? totalLength / filled : 0,
+        patterns: [...patterns.values()].sort((a, b) => b.count - a.count).slice(0, TOP_PATTERNS),
+    }
+}
+
+/**
+ * Profile every column of the data: inferred type, fill rate, distinct and
+ * top values, min/max and length statistics and pattern clusters. Types are
+ * inferred with the given settings, e.g. decimal separators and date formats.
+ */
+export function profileData(
+    data: Record<string, unknown>[],
+    typeConfig: DataTypeConfig,
+    onProgress?: ProgressCallback,
+): ColumnProfile[] {
+    // Distinct texts per column, in the order columns first appear
+    const columns = new Map<string, Map<string, DistinctValue>>()
+
+    data.forEach((row, rowIndex) => {
+        if (onProgress && rowIndex > 0 && rowIndex % PROGRESS_INTERVAL === 0) {
+            onProgress(rowIndex, data.length)
+        }
+
+        Object.entries(row).forEach(([name, value]) => {
+            let values = columns.get(name)
+            if (!values) {
+                values = new Map()
+                columns.set(name, values)
+            }
+            if (isEmpty(value)) return
+
+            const text = toText(value)
+            const distinct = values.get(text)
+            if (distinct) {
+                distinct.count++
+            } else {
+                values.set(text, { value, count: 1 })
+            }
+        })
+    })
+
+    onProgress?.(data.length, data.length)
+
+    return [...columns.entries()].map(([name, values]) => profileColumn(name, values, data.length, typeConfig))
+}
@@ -0,0 +1,300 @@
+import type { ColumnConfig, ImporterConfig, ValidationError, ValidationResult, ValidationRule } from "./types"
+import { buildValidationResult, getErrorSeverity, getRowLocation, normalizeValue } from "./enhanced-validation-utils"
+import { ImportCancelledError } from "./import-worker-client"
+import type { ImportProgress } from "./import-worker-protocol"
+
+/**
+ * "remote" rules send each distinct value of a column, with the row's context
+ * columns, to the rule's endpoint in batches:
+ *
+ *   POST { column: "customer_phone", items: [{ value: "+12015550123", context: {} }] }
+ *
+ * and expect one result per item, in order:
+ *
+ *   { results: [{ valid: false, message: "Unknown customer", suggestion: "..." }] }
+ *
+ * Values the service cannot answer for (timeout, network error, bad status
+ * or response) are reported as warnings instead of blocking the import.
+ */
+
+export interface RemoteCheckItem {
+    value: unknown
+    context: Record<string, unknown>
+}
+
+export interface RemoteCheckResult {
+    valid: boolean
+    message?: string
+    suggestion?: string
+}
+
+// A distinct value and context of one rule, with the rows it occurs in
+interface RemoteCheck {
+    key: string
+    item: RemoteCheckItem
+    rowIndexes: number[]
+}
+
+interface CachedResult {
+    result: RemoteCheckResult
+    expires: number
+}
+
+// Answers by endpoint, column and item, shared across validation runs
+const resultCache = new Map<string, CachedResult>()
+
+let activeController: AbortController | null = null
+
+/**
+ * Abort the remote checks that are running; they reject with ImportCancelledError
+ */
+export function cancelRemoteValidation(): void {
+    activeController?.abort()
+    activeController = null
+}
+
+function isEmpty(value: unknown): boolean {
+    return value === undefined || value === null || value === ""
+}
+
+function getCacheKey(endpoint: string, column: string, key: string): string {
+    return `${endpoint}\u0000${column}\u0000${key}`
+}
+
+function getCellKey(location: { row: number; sheet?: string }, column: string): string {
+    return `${location.sheet ?? ""}\u0000${location.row}\u0000${column}`
+}
+
+function getRemoteRules(column: ColumnConfig): ValidationRule[] {
+    return column.validationRules.filter(
+        (rule) => rule.type === "remote" && typeof rule.value === "string" && rule.value.trim() !== "",
+    )
+}
+
+/**
+ * Distinct values of a column for one rule. Cells that already failed a
+ * local check are left out, since the import is blocked by them anyway.
+ */
+function collectChecks(
+    data: Record<string, unknown>[],
+    column: ColumnConfig,
+    rule: ValidationRule,
+    config: ImporterConfig,
+    failedCells: Set<string>,
+    headerRow: number,
+): RemoteCheck[] {
+    const configMap = new Map(config.columns.map((c) => [c.name, c]))
+    const checks = new Map<string, RemoteCheck>()
+
+    data.forEach((row, rowIndex) => {
+        const value = row[column.name]
+        if (isEmpty(value)) return
+
+        if (failedCells.has(getCellKey(getRowLocation(row, rowIndex, headerRow), column.name))) return
+
+        // Values are sent normalized, e.g. phone numbers in E.164 and dates as ISO strings
+        const context = Object.fromEntries(
+            (rule.contextColumns || []).map((name) => {
+                const contextColumn = configMap.get(name)
+                return [name, contextColumn ? normalizeValue(row[name], contextColumn, config.dataTypeConfig) : row[name]]
+            }),
+        )
+        const item = { value: normalizeValue(value, column, config.dataTypeConfig), context }
+
+        const key = JSON.stringify([item.value, context])
+        const check = checks.get(key)
+        if (check) {
+            check.rowIndexes.push(rowIndex)
+        } else {
+            checks.set(key, { key, item, rowIndexes: [rowIndex] })
+        }
+    })
+
+    return [...checks.values()]
+}
+
+function isCheckResult(value: unknown): value is RemoteCheckResult {
+    return typeof value === "object" && value !== null && typeof (value as RemoteCheckResult).valid === "boolean"
+}
+
+/**
+ * Send one batch and return its results in item order. Timeouts and
+ * unusable responses throw, cancellation throws ImportCancelledError.
+ */
+async function requestBatch(
+    endpoint: string,
+    column: string,
+    items: RemoteCheckItem[],
+    timeoutMs: number,
+    signal: AbortSignal,
+): Promise<RemoteCheckResult[]> {
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    signal.addEventListener("abort", abort)
+    const timer = setTimeout(abort, timeoutMs)
+
+    try {
+        const response = await fetch(endpoint, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ column, items }),
+            signal: controller.signal,
+        })
+        if (!response.ok) {
+            throw new Error(`${response.status} ${response.statusText}`.trim())
+        }
+
+        const body: unknown = await response.json()
+        const results = Array.isArray(body) ? body : (body as { results?: unknown })?.results
+        if (!Array.isArray(results) || results.length !== items.length || !results.every(isCheckResult)) {
+            throw new Error("unexpected response")
+        }
+        return results
+    } catch (error) {
+        if (signal.aborted) throw new ImportCancelledError()
+        if (controller.signal.aborted) throw new Error(`no answer within ${timeoutMs / 1000}s`)
+        throw error
+    } finally {
+        clearTimeout(timer)
+        signal.removeEventListener("abort", abort)
+    }
+}
+
+/**
+ * Run tasks with at most `limit` of them in flight
+ */
+async function runWithConcurrency(tasks: (() => Promise<void>)[], limit: number): Promise<void> {
+    let next = 0
+    const runners = Array.from({ length: Math.min(Math.max(limit, 1), tasks.length) }, async () => {
+        while (next < tasks.length) {
+            await tasks[next++]()
+        }
+    })
+    await Promise.all(runners)
+}
+
+/**
+ * Run the "remote" rules of a configuration over the data and return their
+ * errors. Answers are cached for cacheTtlMs, so revalidating after a fix only
+ * sends the changed values.
+ */
+export async function runRemoteValidation(
+    data: Record<string, unknown>[],
+    config: ImporterConfig,
+    localErrors: ValidationError[] = [],
+    onProgress?: (progress: ImportProgress) => void,
+): Promise<ValidationError[]> {
+    const { batchSize, concurrency, timeoutMs, cacheTtlMs } = config.remoteValidation
+    const headerRow = typeof config.headerRow === "number" ? config.headerRow : 1
+    const failedCells = new Set(
+        localErrors
+            .filter((error) => getErrorSeverity(error) === "error")
+            .map((error) => getCellKey(error, error.column)),
+    )
+
+    const ruleChecks = config.columns.flatMap((column) =>
+        getRemoteRules(column).map((rule) => ({
+            column,
+            rule,
+            checks: collectChecks(data, column, rule, config, failedCells, headerRow),
+        })),
+    )
+    if (ruleChecks.length === 0) return []
+
+    const controller = new AbortController()
+    activeController = controller
+    const errors: ValidationError[] = []
+    const total = ruleChecks.reduce((sum, { checks }) => sum + checks.length, 0)
+    let processed = 0
+    onProgress?.({ stage: "remote", processed, total })
+
+    // Adds an error for every row a checked value occurs in
+    const report = (
+        column: ColumnConfig,
+        check: RemoteCheck,
+        error: Omit<ValidationError, "row" | "sheet" | "column" | "value">,
+    ) => {
+        check.rowIndexes.forEach((rowIndex) => {
+            const row = data[rowIndex]
+            errors.push({ ...getRowLocation(row, rowIndex, headerRow), column: column.name, value: row[column.name], ...error })
+        })
+    }
+
+    const applyResult = (column: ColumnConfig, rule: ValidationRule, check: RemoteCheck, result: RemoteCheckResult) => {
+        if (result.valid) return
+        report(column, check, {
+            message: rule.message || result.message || `"${check.item.value}" was rejected by ${rule.value}`,
+            type: "invalid",
+            suggestion: result.suggestion || "Check the value against the records it refers to",
+            severity: rule.severity || "error",
+        })
+    }
+
+    const tasks = ruleChecks.flatMap(({ column, rule, checks }) => {
+        const endpoint = String(rule.value).trim()
+        const now = Date.now()
+        const pending = checks.filter((check) => {
+            const cached = resultCache.get(getCacheKey(endpoint, column.name, check.key))
+            if (!cached || cached.expires <= now) return true
+            applyResult(column, rule, check, cached.result)
+            processed++
+            return false
+        })
+
+        const size = Math.max(batchSize, 1)
+        const batches: RemoteCheck[][] = []
+        for (let i = 0; i < pending.length; i += size) {
+            batches.push(pending.slice(i, i + size))
+        }
+
+        return batches.map((batch) => async () => {
+            try {
+                const results = await requestBatch(
+                    endpoint,
+                    column.name,
+                    batch.map((check) => check.item),
+                    timeoutMs,
+                    controller.signal,
+                )
+                const expires = Date.now() + cacheTtlMs
+                batch.forEach((check, index) => {
+                    resultCache.set(getCacheKey(endpoint, column.name, check.key), { result: results[index], expires })
+                    applyResult(column, rule, check, results[index])
+                })
+            } catch (error) {
+                if (error instanceof ImportCancelledError) throw error
+                const reason = error instanceof Error ? error.message : String(error)
+                batch.forEach((check) =>
+                    report(column, check, {
+                        message: `Could not be checked with ${endpoint}: ${reason}`,
+                        type: "other",
+                        suggestion: "The validation service is unavailable; verify this value manually or revalidate later",
+                        severity: "warning",
+                    }),
+                )
+            }
+            processed += batch.length
+            onProgress?.({ stage: "remote", processed, total })
+        })
+    })
+
+    try {
+        await runWithConcurrency(tasks, concurrency)
+    } finally {
+        if (activeController === controller) activeController = null
+    }
+    return errors
+}
+
+/**
+ * Validation result with the errors of the remote rules added
+ */
+export async function withRemoteValidation(
+    result: ValidationResult,
+    data: Record<string, unknown>[],
+    config: ImporterConfig,
+    onProgress?: (progress: ImportProgress) => void,
+): Promise<ValidationResult> {
+    const remoteErrors = await runRemoteValidation(data, config, result.errors, onProgress)
+    return remoteErrors.length > 0 ? buildValidationResult([...result.errors, ...remoteErrors], config) : result
+}
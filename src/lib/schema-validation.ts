@@ -1,4 +1,5 @@
-import type { SchemaValidationResult, ImporterConfig } from "@/lib/types"
+import type { SchemaValidationResult, ImporterConfig, HeaderIssue, HeaderResolution } from "@/lib/types"
+import { copyRowMetadata } from "@/lib/excel-utils"
 
 /**
  * Validates data against a schema, specifically checking for extra/unrequired columns
@@ -125,3 +126,65 @@ export function renameColumns(data: any[], columnMap: Record<string, string>): a
     })
 }
 
+function isEmptyValue(value: unknown): boolean {
+    return value === undefined || value === null || String(value).trim() === ""
+}
+
+/**
+ * Applies the chosen fixes for duplicate and blank headers, keeping column order.
+ * A merged duplicate fills empty cells of the first column with the same header
+ * and is joined with "; " where both have different values.
+ */
+export function resolveHeaderIssues(
+    data: Record<string, unknown>[],
+    issues: HeaderIssue[],
+    resolutions: HeaderResolution[],
+): Record<string, unknown>[] {
+    if (!data.length || !resolutions.length) return data
+
+    const resolutionMap = new Map(resolutions.map((resolution) => [resolution.key, resolution]))
+    const issueMap = new Map(issues.map((issue) => [issue.key, issue]))
+
+    return data.map((row) => {
+        const newRow: Record<string, unknown> = {}
+
+        Object.keys(row).forEach((key) => {
+            const resolution = resolutionMap.get(key)
+            const value = row[key]
+
+            switch (resolution?.action) {
+                case "drop":
+                    break
+
+                case "rename":
+                    newRow[resolution.newName?.trim() || key] = value
+                    break
+
+                case "merge": {
+                    const target = issueMap.get(key)?.duplicateOf
+                    if (!target) {
+                        newRow[key] = value
+                        break
+                    }
+
+                    const existing = target in newRow ? newRow[target] : row[target]
+                    if (isEmptyValue(value) || String(existing) === String(value)) {
+                        newRow[target] = existing
+                    } else if (isEmptyValue(existing)) {
+                        newRow[target] = value
+                    } else {
+                        newRow[target] = `${existing}; ${value}`
+                    }
+                    break
+                }
+
+                default:
+                    // "suffix" keeps the generated key
+                    newRow[key] = value
+            }
+        })
+
+        copyRowMetadata(row, newRow)
+        return newRow
+    })
+}
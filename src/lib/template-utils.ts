@@ -0,0 +1,192 @@
+import * as XLSX from "xlsx"
+import { format as formatDate } from "date-fns"
+import type { ColumnConfig, ImporterConfig } from "./types"
+import { downloadFile, formatCellValue, getColumnName, writeWorkbook, XLSX_MIME_TYPE } from "./excel-utils"
+import { getAllowedValues, getColumnTypeConfig } from "./enhanced-validation-utils"
+import { formatPhoneNumber, getPhoneCountry, PHONE_COUNTRIES } from "./phone-utils"
+
+// Rows below the header that get enum dropdowns
+const TEMPLATE_ROWS = 1000
+
+// Excel rejects inline list validations longer than this
+const MAX_LIST_LENGTH = 255
+
+// Fixed sample values so generated templates are reproducible
+const EXAMPLE_DATE = new Date(2024, 0, 31)
+const EXAMPLE_DATE_TIME = new Date(2024, 0, 31, 9, 30)
+const EXAMPLE_NUMBER = 1234.5
+
+const GUIDE_HEADERS = ["Column", "Header", "Required", "Type", "Format", "Allowed Values", "Description", "Example"]
+
+/**
+ * Collect the allowed values of every enum rule on a column
+ */
+export function getEnumValues(column: ColumnConfig): string[] {
+    const values = column.validationRules
+        .filter((rule) => rule.type === "enum")
+        .flatMap((rule) => getAllowedValues(rule).map(String))
+    return [...new Set(values)]
+}
+
+/**
+ * Format hint for a column, falling back to the type defaults
+ */
+function getColumnFormat(column: ColumnConfig, config: ImporterConfig): string {
+    if (column.format) return column.format
+    const typeConfig = getColumnTypeConfig(column, config.dataTypeConfig)
+    if (column.type === "date") return typeConfig.date.format || ""
+    if (column.type === "phone") return typeConfig.phone.format || ""
+    return ""
+}
+
+/**
+ * Format a sample date with the column's first input format, which the
+ * importer accepts by definition, or with the ISO fallback
+ */
+function formatExampleDate(date: Date, inputFormats: string[] | undefined, fallback: string): string {
+    try {
+        return formatDate(date, inputFormats?.[0] || fallback)
+    } catch {
+        return formatDate(date, fallback)
+    }
+}
+
+/**
+ * A sample value for a column that passes its type and enum checks
+ */
+export function getExampleValue(column: ColumnConfig, config: ImporterConfig): string {
+    if (column.defaultValue) return column.defaultValue
+
+    const enumValues = getEnumValues(column)
+    if (enumValues.length > 0) return enumValues[0]
+
+    const typeConfig = getColumnTypeConfig(column, config.dataTypeConfig)
+    switch (column.type) {
+        case "number": {
+            // Formatting gives 1,234.50; write it with the configured separators instead
+            const { decimalSeparator, thousandsSeparator } = typeConfig.number
+            return formatCellValue(EXAMPLE_NUMBER, column.format || undefined).replace(/[,.]/g, (separator) =>
+                separator === "," ? thousandsSeparator : decimalSeparator,
+            )
+        }
+        case "date":
+            return formatExampleDate(EXAMPLE_DATE, typeConfig.date.inputFormats, "yyyy-MM-dd")
+        case "time":
+            return formatExampleDate(EXAMPLE_DATE_TIME, typeConfig.time.inputFormats, "HH:mm")
+        case "datetime":
+            return formatExampleDate(EXAMPLE_DATE_TIME, typeConfig.datetime.inputFormats, "yyyy-MM-dd HH:mm")
+        case "boolean":
+            return typeConfig.boolean.trueValues[0] || "true"
+        case "email":
+            return "name@example.com"
+        case "phone": {
+            // The example number of the default country, in the export format
+            const { defaultCountry, format } = typeConfig.phone
+            const country = getPhoneCountry(defaultCountry) || PHONE_COUNTRIES[0]
+            return formatPhoneNumber(`+${country.callingCode}${country.example}`, column.format || format, defaultCountry)
+        }
+        default:
+            return `Sample ${column.displayName || column.name}`
+    }
+}
+
+/**
+ * Header row of the template. Required columns carry a "Required" note
+ * instead of a marker in the header text, so filled-in templates still
+ * match the configured column names on import.
+ */
+function buildTemplateSheet(columns: ColumnConfig[]): XLSX.WorkSheet {
+    const worksheet: XLSX.WorkSheet = {}
+
+    columns.forEach((column, index) => {
+        const cell: XLSX.CellObject = { t: "s", v: column.displayName || column.name }
+        if (column.required) {
+            const comments: XLSX.Comments = [{ a: "Template", t: "Required" }]
+            comments.hidden = true
+            cell.c = comments
+        }
+        worksheet[XLSX.utils.encode_cell({ r: 0, c: index })] = cell
+    })
+
+    worksheet["!ref"] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: 0, c: Math.max(columns.length - 1, 0) } })
+    worksheet["!cols"] = columns.map((column) => ({ wch: Math.max((column.displayName || column.name).length + 4, 12) }))
+    return worksheet
+}
+
+/**
+ * One row per column describing what the template expects
+ */
+function buildGuideSheet(columns: ColumnConfig[], config: ImporterConfig): XLSX.WorkSheet {
+    const rows = columns.map((column) => [
+        column.name,
+        column.displayName || column.name,
+        column.required ? "Yes" : "No",
+        column.type,
+        getColumnFormat(column, config),
+        getEnumValues(column).join(", "),
+        column.description || "",
+        getExampleValue(column, config),
+    ])
+
+    const worksheet = XLSX.utils.aoa_to_sheet([GUIDE_HEADERS, ...rows])
+    worksheet["!cols"] = GUIDE_HEADERS.map((header, index) => ({
+        wch: Math.min(Math.max(header.length, ...rows.map((row) => row[index].length)) + 2, 60),
+    }))
+    return worksheet
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+/**
+ * Dropdown validations for enum columns. Lists that Excel cannot hold inline
+ * (too long, or values containing commas or quotes) are left out.
+ */
+function buildDataValidationsXml(columns: ColumnConfig[]): string {
+    const validations = columns.flatMap((column, index) => {
+        const values = getEnumValues(column)
+        const list = values.join(",")
+        if (values.length === 0 || list.length > MAX_LIST_LENGTH || values.some((value) => /[,"]/.test(value))) {
+            return []
+        }
+
+        const letter = getColumnName(index)
+        return [
+            `<dataValidation type="list" allowBlank="1" showErrorMessage="1" sqref="${letter}2:${letter}${TEMPLATE_ROWS + 1}">` +
+                `<formula1>${escapeXml(`"${list}"`)}</formula1></dataValidation>`,
+        ]
+    })
+
+    return validations.length > 0
+        ? `<dataValidations count="${validations.length}">${validations.join("")}</dataValidations>`
+        : ""
+}
+
+/**
+ * Write an empty import template for the configured columns: a "Template"
+ * sheet with the headers in schema order and a "Guide" sheet describing them
+ */
+export function writeImportTemplate(config: ImporterConfig): Uint8Array {
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, buildTemplateSheet(config.columns), "Template")
+    XLSX.utils.book_append_sheet(workbook, buildGuideSheet(config.columns, config), "Guide")
+
+    // SheetJS cannot write data validations, so they are added to the template sheet XML
+    const validationsXml = buildDataValidationsXml(config.columns)
+    return writeWorkbook(workbook, (xml, sheetIndex) =>
+        sheetIndex === 0 && validationsXml ? xml.replace("</sheetData>", `</sheetData>${validationsXml}`) : xml,
+    )
+}
+
+/**
+ * Download the import template for the current configuration
+ */
+export function downloadImportTemplate(config: ImporterConfig, fileName = "import_template"): void {
+    try {
+        downloadFile(writeImportTemplate(config), `${fileName}.xlsx`, XLSX_MIME_TYPE)
+    } catch (error) {
+        console.error("Error creating import template:", error)
+        throw error
+    }
+}
@@ -2,14 +2,28 @@ export interface ColumnConfig {
     name: string
     displayName?: string
     required: boolean
-    type: "string" | "number" | "date" | "boolean" | "email" | "phone"
+    type: "string" | "number" | "date" | "time" | "datetime" | "boolean" | "email" | "phone"
     description?: string
     validationRules: ValidationRule[]
     format?: string | null
     invalidHandling: InvalidDataHandling
     defaultValue?: string
+    // Overrides of the global type settings for this column only
+    typeConfig?: ColumnTypeConfig
+    // Severity of the column's type and format checks; "error" when unset
+    typeSeverity?: ValidationSeverity
+    // How valid values are written to the imported data; "typed" when unset
+    transform?: ColumnTransform
+    // Also write the value as read from the file, in a "<name>_raw" column
+    keepRawValue?: boolean
 }
 
+// "typed" converts values to the column type, "none" keeps them as read from the file
+export type ColumnTransform = "typed" | "none"
+
+// Only errors block the import; warnings and info are reported for review
+export type ValidationSeverity = "error" | "warning" | "info"
+
 export interface ValidationRule {
     type:
     | "min"
@@ -25,18 +39,43 @@ export interface ValidationRule {
     | "range"
     | "domain"
     | "length"
+    | "lookup"
+    | "remote"
+    // For "custom" rules an expression such as value.length <= 200, see expression-utils;
+    // for "remote" rules the endpoint URL, see remote-validation
     value?: any
     message: string
+    // For "remote" rules: other columns of the row sent along with the value, e.g. booking_date
+    contextColumns?: string[]
+    // "error" when unset
+    severity?: ValidationSeverity
+    /** @deprecated Functions cannot be saved or sent to the import worker; use a "custom" expression */
     validator?: (value: any) => boolean
 }
 
 export interface ValidationError {
     row: number
+    sheet?: string
     column: string
     value: any
     message: string
     type: "missing" | "format" | "invalid" | "other"
     suggestion?: string
+    // First occurrence of the row or key this error repeats
+    duplicateOf?: { row: number; sheet?: string }
+    // "error" when unset
+    severity?: ValidationSeverity
+    // Replacement value that passes every check of the cell
+    fix?: AutoFix
+}
+
+export type AutoFixKind = "trim" | "match" | "lowercase" | "boolean" | "date" | "phone"
+
+export interface AutoFix {
+    kind: AutoFixKind
+    value: unknown
+    // Index of the row in the validated data
+    rowIndex: number
 }
 
 export interface ValidationResult {
@@ -48,6 +87,31 @@ export interface ValidationResult {
         invalid: ValidationError[]
         other: ValidationError[]
     }
+    errorsBySeverity: Record<ValidationSeverity, ValidationError[]>
+}
+
+export type HeaderIssueType = "duplicate" | "blank"
+
+export interface HeaderIssue {
+    type: HeaderIssueType
+    // Key the column was given in the parsed rows, e.g. "note_2" or "C"
+    key: string
+    // Header text as it appears in the file, empty for blank headers
+    header: string
+    // Column letter in the sheet
+    column: string
+    sheet: string
+    // For duplicates, the key of the first column with the same header
+    duplicateOf?: string
+}
+
+export type HeaderResolutionAction = "rename" | "suffix" | "merge" | "drop"
+
+export interface HeaderResolution {
+    key: string
+    action: HeaderResolutionAction
+    // New column name when action is "rename"
+    newName?: string
 }
 
 export interface HeaderValidationResult {
@@ -56,6 +120,51 @@ export interface HeaderValidationResult {
     present: string[]
     missingRequired: string[]
     unrecognized: string[]
+    headerIssues: HeaderIssue[]
+}
+
+export interface RowSource {
+    sheet: string
+    row: number
+}
+
+export interface SheetSummary {
+    name: string
+    rowCount: number
+    headers: string[]
+    headerRow?: number
+    headerIssues: HeaderIssue[]
+}
+
+export interface ValueCount {
+    value: string
+    count: number
+}
+
+// Cells whose text has the same shape: digits as 9, letters as a or A
+export interface PatternCluster {
+    pattern: string
+    count: number
+    example: string
+}
+
+export interface ColumnProfile {
+    name: string
+    // Type that most filled cells have; "string" when no other type fits
+    inferredType: ColumnConfig["type"]
+    // Share of the filled cells that have the inferred type, 0 to 1
+    typeMatchRate: number
+    total: number
+    filled: number
+    distinct: number
+    topValues: ValueCount[]
+    // Smallest and largest number, date or time, as text
+    min?: string
+    max?: string
+    minLength: number
+    maxLength: number
+    averageLength: number
+    patterns: PatternCluster[]
 }
 
 export interface FileValidationResult {
@@ -81,12 +190,37 @@ export interface NumberTypeConfig {
     max?: number | null
     precision: number
     integerOnly: boolean
+    // Separators used in text numbers, e.g. "," and "." for 1.234,50; an empty thousands separator disables grouping
+    decimalSeparator: string
+    thousandsSeparator: string
+    // Symbols and codes stripped from either end of a value, e.g. $, €, Rs, INR
+    currencySymbols: string[]
+    // Accept a trailing % and read 15% as 0.15
+    allowPercent: boolean
 }
 
 export interface DateTypeConfig {
     min?: string
     max?: string
     format?: string
+    // date-fns patterns accepted for text dates, e.g. dd/MM/yyyy; ISO yyyy-MM-dd is always accepted
+    inputFormats?: string[]
+}
+
+export interface TimeTypeConfig {
+    // Earliest and latest time of day as HH:mm
+    min?: string
+    max?: string
+    // Patterns accepted on top of the 24-hour and 12-hour clock formats, e.g. HH.mm
+    inputFormats?: string[]
+}
+
+export interface DateTimeTypeConfig {
+    // ISO date and time bounds, e.g. 2025-01-01 09:00
+    min?: string
+    max?: string
+    // Patterns accepted on top of ISO, e.g. dd/MM/yyyy HH:mm
+    inputFormats?: string[]
 }
 
 export interface BooleanTypeConfig {
@@ -98,11 +232,17 @@ export interface BooleanTypeConfig {
 export interface EmailTypeConfig {
     pattern?: string
     allowedDomains: string[]
+    // Severity of addresses outside allowedDomains, e.g. "warning" for unusual domains; "error" when unset
+    domainSeverity?: ValidationSeverity
 }
 
 export interface PhoneTypeConfig {
+    // Extra regex a number must also match
     pattern?: string
+    // Export format with # digit placeholders, e.g. (###) ###-####, or E.164
     format?: string
+    // ISO code of the country numbers without a country code belong to
+    defaultCountry: string
     allowInternational: boolean
 }
 
@@ -110,16 +250,139 @@ export interface DataTypeConfig {
     string: StringTypeConfig
     number: NumberTypeConfig
     date: DateTypeConfig
+    time: TimeTypeConfig
+    datetime: DateTimeTypeConfig
     boolean: BooleanTypeConfig
     email: EmailTypeConfig
     phone: PhoneTypeConfig
 }
 
+// Any DataTypeConfig field can be overridden per column; unset fields use the global value
+export type ColumnTypeConfig = { [K in keyof DataTypeConfig]?: Partial<DataTypeConfig[K]> }
+
+export type HeaderRowSetting = number | "auto"
+
+export type CsvEncoding = "auto" | "utf-8" | "utf-16le" | "utf-16be" | "windows-1252" | "iso-8859-1"
+
+// How a quote is escaped inside a quoted field: doubled ("") or with a backslash (\")
+export type CsvEscapeMode = "double" | "backslash"
+
+export interface CsvOptions {
+    // Field separator, or "auto" to sniff it from the first lines
+    delimiter: string
+    quoteChar: string
+    escapeMode: CsvEscapeMode
+    // Text encoding, or "auto" to use the BOM and fall back to Windows-1252 for invalid UTF-8
+    encoding: CsvEncoding
+    // Lines dropped from the top of the file before parsing
+    skipLines: number
+}
+
+export type RowConditionOperator =
+    | "equals"
+    | "notEquals"
+    | "empty"
+    | "notEmpty"
+    | "isTrue"
+    | "isFalse"
+    | "equalsColumn"
+    | "notEqualsColumn"
+
+export interface RowCondition {
+    column: string
+    operator: RowConditionOperator
+    // Compared value for "equals" and "notEquals"
+    value?: string
+    // Compared column for "equalsColumn" and "notEqualsColumn"
+    otherColumn?: string
+}
+
+// A check that looks at several columns of the same row, optionally only for rows matching "when"
+export interface RowRule {
+    when?: RowCondition
+    check: RowCondition
+    message: string
+    // "error" when unset
+    severity?: ValidationSeverity
+}
+
+// Columns whose combined values must not repeat across rows, e.g. phone + booking date + booking time
+export interface UniqueKey {
+    columns: string[]
+    message?: string
+}
+
+// Which occurrences of a duplicate are imported; "flagAll" reports every occurrence as an error
+export type DuplicateHandling = "keepFirst" | "keepLast" | "flagAll"
+
+// Merges a date column and a time column into one timestamp column of the processed output
+export interface DateTimeCombination {
+    dateColumn: string
+    timeColumn: string
+    outputColumn: string
+    // IANA time zone the date and time are local to, e.g. Europe/Berlin; empty for the browser's zone
+    timeZone?: string
+    removeSourceColumns: boolean
+}
+
+// Where a lookup table is loaded from: an uploaded CSV/XLSX/JSON file, a JSON file in public/ or a local endpoint
+export type LookupSource = "upload" | "public" | "endpoint"
+
+// A named reference list that "lookup" rules check values against, e.g. vehicle types
+export interface LookupTable {
+    name: string
+    source: LookupSource
+    // Path of the file in public/, e.g. /lookups/vehicle-types.json, or the endpoint URL
+    location?: string
+    // Column or JSON field holding the values; the first one when empty
+    valueColumn?: string
+}
+
+// Values of a lookup table as last loaded, cached between sessions
+export interface CachedLookupTable {
+    values: string[]
+    // Starts at 1 and increases whenever a reload changes the values
+    version: number
+    checksum: string
+    loadedAt: number
+    // File name or URL the values were loaded from
+    origin: string
+    // Source and value column of the table when loaded, to tell when its configuration changed
+    source: LookupSource
+    valueColumn?: string
+}
+
+// Limits for "remote" validation rules
+export interface RemoteValidationOptions {
+    // Distinct values sent per request
+    batchSize: number
+    // Requests running at the same time
+    concurrency: number
+    timeoutMs: number
+    // How long answers are reused for the same value, endpoint and context
+    cacheTtlMs: number
+}
+
 export interface ImporterConfig {
     columns: ColumnConfig[]
     acceptedFormats: string[]
     invalidColumnHandling: InvalidColumnHandling
     dataTypeConfig: DataTypeConfig
+    // 1-based sheet row holding the headers, or "auto" to detect it from the column names
+    headerRow: HeaderRowSetting
+    // How many rows from the top of each sheet are scored during auto-detection
+    headerDetectionRows: number
+    csv: CsvOptions
+    rowRules: RowRule[]
+    uniqueKeys: UniqueKey[]
+    // Report rows that repeat another row in every column
+    detectDuplicateRows: boolean
+    duplicateHandling: DuplicateHandling
+    dateTimeCombinations: DateTimeCombination[]
+    lookupTables: LookupTable[]
+    remoteValidation: RemoteValidationOptions
+    // Loaded values of each lookup table by name, attached before validation with withLookupValues
+    lookupValues?: Record<string, string[]>
 }
 
 export interface SchemaValidationResult {
@@ -36,6 +36,7 @@ export function validateHeaders(fileHeaders: string[], expectedConfig: ColumnCon
         present,
         missingRequired,
         unrecognized,
+        headerIssues: [],
     }
 }
 
@@ -195,6 +196,8 @@ export function validateData(data: any[], columnConfig: ColumnConfig[]): Validat
         valid: errors.length === 0,
         errors,
         errorsByType,
+        // This validator has no severities, so every error blocks
+        errorsBySeverity: { error: errors, warning: [], info: [] },
     }
 }
 